@@ -8,6 +8,8 @@ interface Task {
     priority?: string;
     assignedTo?: string;
     dueDate?: string;
+    // Calendar date parsed from the raw value (YYYY-MM-DD), free of time zone shifts
+    dueDateValue?: string;
     description?: string;
     recordId?: string;
     // Author/assignee information
@@ -16,6 +18,12 @@ interface Task {
     authorEmail?: string;
     authorAvatar?: string;
     isOptimistic?: boolean;
+    // Fractional rank within the column (sortorder), lower comes first
+    rank?: number;
+    // Formatted values of every dataset column, keyed by column name and alias
+    fields?: Record<string, string>;
+    // Field values changed locally (e.g. by a lane move) that the dataset has not caught up with yet
+    optimisticFields?: Record<string, string>;
 }
 
 interface ColumnDefinition {
@@ -23,6 +31,32 @@ interface ColumnDefinition {
     title: string;
     statusValues: string[];
     color?: string;
+    order?: number;
+    // Work-in-progress limits
+    wipMin?: number;
+    wipMax?: number;
+    wipHard?: boolean;
+    // In-column sort, e.g. "priority:desc,duedate:asc"
+    sortBy?: string;
+    // Column ids cards may move to, "*" or "any" for all; missing means no restriction
+    allowedTransitions?: string[];
+}
+
+// Result of resolving the column configuration, written to the columnConfiguration output
+interface ColumnConfigurationReport {
+    source: 'columnDefinitions' | 'quickColumnSetup' | 'default' | 'dataset';
+    columns: ColumnDefinition[];
+    errors: string[];
+    warnings: string[];
+}
+
+// User-arranged column, written to columnConfiguration and read back through columnLayout
+interface ColumnLayoutEntry {
+    id: string;
+    collapsed: boolean;
+    width?: number;
+    // Sort chosen from the column header
+    sortBy?: string;
 }
 
 interface Column {
@@ -31,6 +65,49 @@ interface Column {
     taskIds: string[];
     statusValues: string[];
     color?: string;
+    isUnmapped?: boolean;
+    wipMin?: number;
+    wipMax?: number;
+    wipHard?: boolean;
+    sortBy?: string;
+    allowedTransitions?: string[];
+}
+
+interface SortKey {
+    field: string;
+    direction: 'asc' | 'desc';
+}
+
+// Written to the lastReorder output after a position-aware drop
+interface ReorderInfo {
+    columnId: string;
+    status: string;
+    taskId: string;
+    newIndex: number;
+    newRank: number;
+    orderedTaskIds: string[];
+    rankUpdates: { taskId: string; rank: number }[];
+    timestamp: string;
+}
+
+type WipBreachType = 'exceeded' | 'belowMinimum';
+
+interface WipColumnEvent {
+    type: WipBreachType | 'blocked';
+    columnId: string;
+    columnTitle: string;
+    count: number;
+    min: number | null;
+    max: number | null;
+}
+
+// The top-level column fields repeat the first entry of breaches
+interface WipLimitEvent extends WipColumnEvent {
+    // Every column that newly entered a breach (or refused a drop) with this event
+    breaches: WipColumnEvent[];
+    taskId?: string;
+    timestamp: string;
+    activeBreaches: { columnId: string; type: WipBreachType; count: number; min: number | null; max: number | null }[];
 }
 
 interface BoardData {
@@ -39,6 +116,392 @@ interface BoardData {
     columnOrder: string[];
 }
 
+// Written to the diagnostics output so app makers can spot mapping mistakes
+interface BoardDiagnostics {
+    unmappedCount: number;
+    unmappedStatuses: { status: string; count: number }[];
+    // Dataset paging: -1 when the total is unknown
+    loadedRecords: number;
+    totalRecords: number;
+    hasMoreRecords: boolean;
+    // Last failed direct write-back, cleared by the next confirmed move
+    writeBackError: { taskId: string; message: string; timestamp: string } | null;
+    // Last move that was reverted for any reason, cleared by the next confirmed one
+    moveFailure: MoveFailure | null;
+}
+
+// Where a card was before a move, used to undo it when saving fails
+interface MoveRollback {
+    sourceColumnId: string;
+    sourceIndex: number;
+    previousStatus: string;
+    laneField?: string;
+    previousLaneValue?: string;
+}
+
+type MoveFailureReason = 'timeout' | 'rejected' | 'writeBack';
+
+interface MoveFailure {
+    moveId: string;
+    taskId: string;
+    reason: MoveFailureReason;
+    message: string;
+    timestamp: string;
+}
+
+// A move waiting for the data source (or the moveAcknowledgement input) to confirm it
+interface PendingMove {
+    moveId: string;
+    taskId: string;
+    rollback: MoveRollback;
+    startedAt: number;
+    timer?: number;
+}
+
+// Saved edits waiting for the data source (or the editAcknowledgement input) to confirm them
+interface PendingEdit {
+    editId: string;
+    taskId: string;
+    changes: Record<string, string>;
+    // Values before the first unconfirmed edit, restored when the edit fails
+    previousValues: Record<string, string>;
+    timer?: number;
+}
+
+// Column collecting tasks whose status matches no column definition
+const UNMAPPED_COLUMN_ID = '__unmapped__';
+
+// Pause in typing after which the search filters the board and updates filterState
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Pointer drag engine tuning
+const LONG_PRESS_MS = 400;
+const DRAG_THRESHOLD_PX = 8;
+const AUTO_SCROLL_EDGE_PX = 40;
+const AUTO_SCROLL_STEP_PX = 12;
+
+// Column layout limits
+const COLUMN_COLLAPSED_WIDTH_PX = 48;
+const COLUMN_RESIZE_MIN_PX = 160;
+const COLUMN_RESIZE_MAX_PX = 800;
+
+// Undo steps kept per board
+const HISTORY_LIMIT = 50;
+
+// Windowed card lists: default card count above which a list is windowed, cards rendered
+// around the visible ones, and the height assumed for a card that was never measured
+const VIRTUALIZE_DEFAULT_THRESHOLD = 100;
+const VIRTUAL_OVERSCAN_CARDS = 8;
+const VIRTUAL_ESTIMATED_CARD_PX = 140;
+
+// Written to the taskCreated output when a card is added from a column header
+interface TaskCreatedEvent {
+    tempId: string;
+    columnId: string;
+    status: string;
+    title: string;
+    priority: string;
+    assignedTo: string;
+    dueDate: string;
+    laneField?: string;
+    laneValue?: string;
+    timestamp: string;
+}
+
+type DueDateFilter = '' | 'overdue' | 'thisWeek' | 'noDate';
+
+interface LaneChange {
+    field: string;
+    previousValue: string;
+    newValue: string;
+}
+
+// Board state change of a single move, applied before rendering and output
+interface MoveResult {
+    sourceIndex: number;
+    statusChanged: boolean;
+    previousStatus: string;
+    laneChange: LaneChange | null;
+    reorder: ReorderInfo | null;
+}
+
+interface MoveOptions {
+    laneValue?: string;
+    index?: number;
+    // Status to set instead of the target column's primary status, e.g. the one restored by undo
+    status?: string;
+}
+
+// Where a card was or went, enough to move it there again; status is restored as it was
+interface CardPosition {
+    columnId: string;
+    index?: number;
+    laneValue?: string;
+    status?: string;
+}
+
+interface HistoryMove {
+    taskId: string;
+    from: CardPosition;
+    to: CardPosition;
+}
+
+// Undoable board operations; moves of a multi-selection form one entry
+interface MoveHistoryEntry {
+    type: 'move';
+    moves: HistoryMove[];
+}
+
+interface CreateHistoryEntry {
+    type: 'create';
+    // Temporary id of the latest (re)created card
+    tempId: string;
+    columnId: string;
+    laneValue?: string;
+    values: { title: string; priority: string; assignedTo: string; dueDate: string };
+}
+
+interface EditHistoryEntry {
+    type: 'edit';
+    taskId: string;
+    changes: Record<string, string>;
+    previousValues: Record<string, string>;
+}
+
+type HistoryEntry = MoveHistoryEntry | CreateHistoryEntry | EditHistoryEntry;
+
+// Written to the historyEvent output after an undo or redo
+interface HistoryEvent {
+    action: 'undo' | 'redo';
+    operation: HistoryEntry['type'];
+    // Record ids affected; after undoing a create this is the record the app should delete
+    taskIds: string[];
+    tempId?: string;
+    canUndo: boolean;
+    canRedo: boolean;
+    timestamp: string;
+}
+
+// Why a drop or a Move to was refused
+interface MoveRejection {
+    reason: 'unmapped' | 'transition' | 'wipLimit';
+    message: string;
+    sourceColumnId: string;
+}
+
+// Written to the rejectedMove output for every refused move, for auditing
+interface RejectedMoveEvent {
+    reason: MoveRejection['reason'];
+    message: string;
+    taskId: string;
+    taskIds: string[];
+    fromColumnId: string;
+    fromStatus: string;
+    toColumnId: string;
+    toStatus: string;
+    allowedColumnIds: string[] | null;
+    timestamp: string;
+}
+
+// Written to the editedTask output after a save in the detail panel
+interface TaskEditedEvent {
+    taskId: string;
+    editId: string | null;
+    changes: Record<string, string>;
+    previousValues: Record<string, string>;
+    timestamp: string;
+}
+
+// One entry of the batchMove output
+interface BatchMoveItem {
+    taskId: string;
+    title: string;
+    fromColumnId: string;
+    toColumnId: string;
+    previousStatus: string;
+    newStatus: string;
+    newRank: number | null;
+    moveId: string | null;
+    laneField?: string;
+    previousLaneValue?: string;
+    newLaneValue?: string;
+}
+
+// Written to the batchMove output when several selected cards are moved together
+interface BatchMoveEvent {
+    batchId: string;
+    targetStatus: string;
+    count: number;
+    moves: BatchMoveItem[];
+    directWriteBack: boolean;
+    timestamp: string;
+}
+
+// Version of the boardEvent envelope, bumped on breaking payload changes (see schemas/board-event.schema.json)
+const BOARD_EVENT_SCHEMA_VERSION = '1.0';
+
+// Payload of a move event; a single card move has one entry in moves
+interface BoardMovePayload {
+    batchId: string | null;
+    // Empty when the cards went to different statuses (undo of a batch)
+    targetStatus: string;
+    moves: BatchMoveItem[];
+    reorder: ReorderInfo | null;
+    directWriteBack: boolean;
+}
+
+interface BoardSelectPayload {
+    // Record ids of the multi-selection in board order
+    taskIds: string[];
+    // Card whose detail panel was opened, null for selection changes
+    openedTaskId: string | null;
+}
+
+interface BoardSharePayload {
+    taskId: string;
+    channel: 'teams' | 'email';
+    recipient: string;
+    subject: string;
+    message: string;
+}
+
+// Written to the shareRequested output when a message is sent from the share popup
+interface ShareRequestedEvent extends BoardSharePayload {
+    // mailto: or Teams chat link, opened by the control unless shareMode is OutputOnly
+    link: string;
+    timestamp: string;
+}
+
+// Board actions that change no record themselves
+interface BoardActionPayload {
+    action: 'undo' | 'redo' | 'moveRejected';
+    taskIds: string[];
+    history?: HistoryEvent;
+    rejection?: RejectedMoveEvent;
+}
+
+interface BoardEventPayloads {
+    move: BoardMovePayload;
+    reorder: ReorderInfo;
+    create: TaskCreatedEvent;
+    edit: TaskEditedEvent;
+    select: BoardSelectPayload;
+    share: BoardSharePayload;
+    action: BoardActionPayload;
+}
+
+type BoardEventType = keyof BoardEventPayloads;
+
+// Envelope of the boardEvent output; origin tells compensating undo/redo events from user actions
+interface BoardEvent<T extends BoardEventType = BoardEventType> {
+    schemaVersion: string;
+    eventType: T;
+    eventId: string;
+    timestamp: string;
+    origin: 'user' | HistoryEvent['action'];
+    payload: BoardEventPayloads[T];
+}
+
+// Full: updatedTasksData carries the whole board on every output. Delta: boardDelta carries the changes
+type OutputMode = 'Full' | 'Delta';
+
+// Tasks and columns a boardDelta sequence changed compared with the one before it
+interface SentDelta {
+    sequence: number;
+    taskIds: string[];
+    columnIds: string[];
+    columnOrder: boolean;
+}
+
+// Written to the boardDelta output: changes since the acknowledged sequence (baseSequence 0 = the whole board)
+interface BoardDelta {
+    sequence: number;
+    baseSequence: number;
+    changedTasks: Task[];
+    removedTaskIds: string[];
+    columns: { columnId: string; title: string; taskIds: string[] }[];
+    removedColumnIds: string[];
+    // Only set when the column order changed
+    columnOrder: string[] | null;
+    timestamp: string;
+}
+
+// Size (characters) and build time of the previous getOutputs, reported through diagnostics
+interface OutputStats {
+    mode: OutputMode;
+    totalSize: number;
+    sizes: Record<string, number>;
+    durationMs: number;
+    sequence: number;
+    acknowledgedSequence: number;
+    timestamp: string;
+}
+
+// Output delta sequences kept until the app acknowledges one of them
+const UNACKNOWLEDGED_OUTPUT_LIMIT = 20;
+
+// Drag started by the pointer engine; active once the long-press (touch) or movement threshold (mouse) is passed
+interface PointerDrag {
+    pointerId: number;
+    pointerType: string;
+    card: HTMLElement;
+    taskId: string;
+    sourceColumnId: string;
+    startX: number;
+    startY: number;
+    offsetX: number;
+    offsetY: number;
+    lastX: number;
+    lastY: number;
+    active: boolean;
+    preview: HTMLElement | null;
+    zone: HTMLElement | null;
+    longPressTimer?: number;
+    scrollFrame?: number;
+}
+
+// Card picked up with the keyboard; position counts the cards of the target cell without the card itself
+interface KeyboardMove {
+    taskId: string;
+    sourceColumnId: string;
+    laneValue?: string;
+    columnId: string;
+    position: number;
+}
+
+// Toolbar filter, persisted through the filterState property
+interface FilterState {
+    search: string;
+    assignees: string[];
+    priorities: string[];
+    due: DueDateFilter;
+}
+
+// Temporary card shown until the dataset returns the record named in createAcknowledgement
+interface PendingCreate {
+    task: Task;
+    columnId: string;
+    recordId?: string;
+    timer?: number;
+}
+
+// Element from the previous render, reused while its render key is unchanged
+interface RenderedElement {
+    key: string;
+    element: HTMLElement;
+}
+
+// Windowed tasks container: every card id in display order, of which only the visible window is in the DOM
+interface VirtualList {
+    container: HTMLElement;
+    column: Column;
+    taskIds: string[];
+    enableDragDrop: boolean;
+    // Quick-create editor above the cards, load-more button below them
+    before: HTMLElement[];
+    after: HTMLElement[];
+}
+
 interface AlignmentConfig {
     boardHorizontal: string;
     columnsHorizontal: string;
@@ -57,8 +520,101 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
     private _draggedTaskId: string | null = null;
     private _sourceColumnId: string | null = null;
     private _lastUpdatedTask: string | null = null;
-    private _pendingUpdate = false;
+    private _lastLaneChange: LaneChange | null = null;
+    private _collapsedLanes = new Set<string>();
+    // Column layout arranged by the user; an empty order keeps the configured one
+    private _columnLayoutOrder: string[] = [];
+    private _collapsedColumns = new Set<string>();
+    private _columnWidths: Record<string, number> = {};
+    private _columnLayoutInput = '';
+    private _lastReorder: ReorderInfo | null = null;
+    // Sort chosen from a column header, '' = manual order. Missing means the configured sort applies
+    private _columnSortOverrides: Record<string, string> = {};
+    private _sortMenuColumnId: string | null = null;
+    private _pointerDrag: PointerDrag | null = null;
+    private _pointerDragEndedAt = 0;
+    private _keyboardMove: KeyboardMove | null = null;
+    // Multi-selection in board order of selecting; the anchor is where Shift-click ranges start
+    private _selection: string[] = [];
+    private _selectionAnchor: string | null = null;
+    private _lastBatchMove: BatchMoveEvent | null = null;
+    private _undoStack: HistoryEntry[] = [];
+    private _redoStack: HistoryEntry[] = [];
+    // Set while an undo/redo replays an operation, so it is not recorded again
+    private _replayingHistory = false;
+    // Real task id of a quick-created card once the data source returned it, by temporary id
+    private _createdTaskIds: Record<string, string> = {};
+    private _lastHistoryEvent: HistoryEvent | null = null;
+    private _lastRejectedMove: RejectedMoveEvent | null = null;
+    private _liveRegion: HTMLElement | null = null;
+    private _filter: FilterState = { search: '', assignees: [], priorities: [], due: '' };
+    private _filterStateInput = '';
+    private _searchCaret: number | null = null;
+    // Search text typed but not applied yet
+    private _searchDebounce: { value: string; timer: number } | null = null;
+    private _quickCreate: { columnId: string; laneValue?: string } | null = null;
+    private _pendingCreates: Record<string, PendingCreate> = {};
+    private _lastCreatedTask: TaskCreatedEvent | null = null;
+    private _lastEditedTask: TaskEditedEvent | null = null;
+    private _lastShareRequest: ShareRequestedEvent | null = null;
+    private _lastBoardEvent: BoardEvent | null = null;
+    private _boardEventOrigin: BoardEvent['origin'] = 'user';
+    private _lastMovePreviousStatus = '';
+    // Flipped with every boardEvent so OnChange can watch a single boolean
+    private _triggerUpdate = false;
+    private _outputMode: OutputMode = 'Full';
+    // Delta outputs: tasks and columns changed since the last boardDelta, marked where the board changes
+    private _dirtyTaskIds = new Set<string>();
+    private _dirtyColumnIds = new Set<string>();
+    private _columnOrderDirty = false;
+    // Sequence the app acknowledged (0 = none, the next delta carries the whole board) and the ones sent after it
+    private _acknowledgedSequence = 0;
+    private _sentOutputs: SentDelta[] = [];
+    private _outputSequence = 0;
+    private _boardDeltaOutput = '';
+    private _outputAcknowledgementInput = '';
+    private _snapshotRequestInput = '';
+    private _snapshotPending = false;
+    private _outputStats: OutputStats | null = null;
+    private _dataSource: 'dataset' | 'json' | 'samples' = 'samples';
+    // Paging: page size last pushed to the dataset, record count when the next page was requested
+    private _appliedPageSize = 0;
+    private _pageRequestRecordCount: number | null = null;
+    // Cards shown per column (or swimlane cell) when columnCardLimit is set
+    private _columnVisibleCounts: Record<string, number> = {};
+    private _dropIndicator: HTMLElement | null = null;
+    // Keyed render cache: elements of the last render by id ('card:…', 'column:…') and the ones reused or built now.
+    // Between renders both point to the same map, so windowed lists add the cards they scroll in
+    private _renderedElements: Record<string, RenderedElement> = {};
+    private _nextRenderedElements: Record<string, RenderedElement> = {};
+    private _renderContextKey = '';
+    private _appliedStyleKey = '';
+    // Windowed lists by column and lane, measured card heights including the gap below them
+    private _virtualLists: Record<string, VirtualList> = {};
+    private _cardHeights: Record<string, number> = {};
+    private _virtualFrame = 0;
     private _columnDefinitions: ColumnDefinition[] = [];
+    private _columnConfigReport: ColumnConfigurationReport = { source: 'default', columns: [], errors: [], warnings: [] };
+    private _columnConfigInputKey: string | null = null;
+    private _columnConfigOutput = '';
+    private _showUnmappedColumn = false;
+    private _diagnostics: BoardDiagnostics = { unmappedCount: 0, unmappedStatuses: [], loadedRecords: 0, totalRecords: -1, hasMoreRecords: false, writeBackError: null, moveFailure: null };
+    private _diagnosticsOutput = '';
+    private _enforceWipLimits = false;
+    private _wipBreaches: Record<string, WipBreachType> = {};
+    private _lastWipEvent: WipLimitEvent | null = null;
+    // Reverted moves shown on the cards until they are moved again
+    private _moveErrors: Record<string, string> = {};
+    private _pendingMoves: Record<string, PendingMove> = {};
+    private _pendingEdits: Record<string, PendingEdit> = {};
+    private _moveCounter = 0;
+    private _lastAcknowledgement = '';
+    private _lastEditAcknowledgement = '';
+    private _lastCreateAcknowledgement = '';
+    // Option values of Choice columns by lower-case label, per "entity.column", read from the entity metadata
+    private _optionValues: Record<string, Promise<Record<string, number>>> = {};
+    // Auto column mode: every status seen so far, in the order columns are shown
+    private _autoStatuses: string[] = [];
 
     // Style and alignment configuration
     private _styleConfig = {
@@ -179,8 +735,19 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
         this.updateRadiusAndShadowConfiguration();
 
         // Load data
+        this.updatePaging();
+        this.processMoveAcknowledgement();
+        this.processEditAcknowledgement();
+        this.processCreateAcknowledgement();
+        this.updateOutputMode();
+        this.updateFilterState();
+        this.updateColumnLayout();
         this.loadData();
+        this.autoLoadNextPage();
         this.renderBoard();
+        this.evaluateWipLimits();
+        this.publishColumnConfiguration();
+        this.publishDiagnostics();
 
         // Global listener to close popups when clicking outside
         document.addEventListener('click', (e) => {
@@ -189,6 +756,12 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
                 (popup as HTMLElement).style.display = 'none';
             });
         });
+
+        // Undo/redo shortcuts while focus is inside the board; clicking the board focuses it
+        this._container.tabIndex = -1;
+        this._container.addEventListener('keydown', this.onBoardKeyDown);
+        // Scroll does not bubble; capturing it here covers the board and every card list
+        this._container.addEventListener('scroll', this.onBoardScroll, true);
     }
 
 
@@ -206,16 +779,345 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
 
         // Check if dataset has changed - use fallback for now
         // Always reload data and render to support all sources and fallbacks
+        this.updatePaging();
+        this.processMoveAcknowledgement();
+        this.processEditAcknowledgement();
+        this.processCreateAcknowledgement();
+        this.updateOutputMode();
+        this.updateFilterState();
+        this.updateColumnLayout();
         this.loadData();
+        this.autoLoadNextPage();
         this.renderBoard();
+        this.evaluateWipLimits();
+        this.publishColumnConfiguration();
+        this.publishDiagnostics();
     }
 
     private updateColumnDefinitions(): void {
-        // Use simple configuration for now since advanced properties aren't available yet
-        this._columnDefinitions = this.getDefaultColumnDefinitions();
+        const jsonSetup = this._context.parameters.columnDefinitions?.raw?.trim() || '';
+        const quickSetup = this._context.parameters.quickColumnSetup?.raw?.trim() || '';
+        const columnMode = this._context.parameters.columnMode?.raw || 'Configured';
+        const statusOrder = this._context.parameters.statusOrder?.raw?.trim() || '';
+        this._showUnmappedColumn = this._context.parameters.showUnmappedColumn?.raw === true;
+        this._enforceWipLimits = this._context.parameters.enforceWipLimits?.raw === true;
+
+        // Only re-resolve when the inputs actually changed; a new statusOrder also re-derives the auto columns
+        const inputKey = `${jsonSetup}\u0000${quickSetup}\u0000${columnMode}\u0000${statusOrder}`;
+        if (inputKey === this._columnConfigInputKey) return;
+        this._columnConfigInputKey = inputKey;
+
+        const report: ColumnConfigurationReport = { source: 'default', columns: [], errors: [], warnings: [] };
+
+        // 1. Advanced JSON definitions
+        if (jsonSetup) {
+            const columns = this.parseColumnDefinitionsJson(jsonSetup, report);
+            if (columns.length > 0) {
+                report.source = 'columnDefinitions';
+                report.columns = columns;
+            } else {
+                report.errors.push('columnDefinitions did not yield any valid column, falling back.');
+            }
+        }
+
+        // 2. Quick Columns
+        if (report.columns.length === 0 && quickSetup) {
+            const columns = this.parseQuickColumnSetup(quickSetup);
+            if (columns.length > 0) {
+                report.source = 'quickColumnSetup';
+                report.columns = columns;
+            } else {
+                report.errors.push('quickColumnSetup did not contain any status, falling back to default columns.');
+            }
+        }
+
+        // 3. Defaults
+        if (report.columns.length === 0) {
+            report.source = 'default';
+            report.columns = this.getDefaultColumnDefinitions();
+        }
+
+        this._columnDefinitions = report.columns;
+        this._columnConfigReport = report;
+        this._autoStatuses = [];
+
+        report.errors.forEach(err => console.warn(`Column configuration: ${err}`));
+        report.warnings.forEach(warning => console.warn(`Column configuration: ${warning}`));
+    }
+
+    private parseColumnDefinitionsJson(json: string, report: ColumnConfigurationReport): ColumnDefinition[] {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(json);
+        } catch (e) {
+            report.errors.push(`columnDefinitions is not valid JSON: ${(e as Error).message}`);
+            return [];
+        }
+
+        // Accept both a bare array and an object wrapping it ({ "columns": [...] })
+        const entries = Array.isArray(parsed)
+            ? parsed
+            : (parsed && typeof parsed === 'object' && Array.isArray((parsed as Record<string, unknown>).columns))
+                ? (parsed as Record<string, unknown[]>).columns
+                : null;
+
+        if (!entries) {
+            report.errors.push('columnDefinitions must be a JSON array of column objects.');
+            return [];
+        }
+
+        const knownFields = ['id', 'title', 'statusValues', 'color', 'order', 'wipMin', 'wipMax', 'wipHard', 'sortBy', 'allowedTransitions'];
+        const columns: ColumnDefinition[] = [];
+        const usedIds = new Set<string>();
+
+        entries.forEach((entry, index) => {
+            const label = `Column #${index + 1}`;
+            if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+                report.errors.push(`${label} is not an object and was skipped.`);
+                return;
+            }
+            const raw = entry as Record<string, unknown>;
+
+            const title = typeof raw.title === 'string' && raw.title.trim()
+                ? raw.title.trim()
+                : (typeof raw.id === 'string' || typeof raw.id === 'number') ? String(raw.id).trim() : '';
+            if (!title) {
+                report.errors.push(`${label} has neither a title nor an id and was skipped.`);
+                return;
+            }
+            if (typeof raw.title !== 'string') {
+                report.warnings.push(`${label} has no title, using its id "${title}".`);
+            }
+
+            let id = (typeof raw.id === 'string' || typeof raw.id === 'number') ? String(raw.id).trim() : '';
+            if (!id) {
+                id = `col_${index}`;
+                report.warnings.push(`${label} ("${title}") has no id, generated "${id}".`);
+            }
+            if (usedIds.has(id)) {
+                report.errors.push(`${label} ("${title}") reuses the id "${id}" and was skipped.`);
+                return;
+            }
+
+            let statusValues: string[] = [];
+            if (Array.isArray(raw.statusValues)) {
+                statusValues = raw.statusValues
+                    .filter(v => typeof v === 'string' || typeof v === 'number')
+                    .map(v => String(v).trim())
+                    .filter(v => v.length > 0);
+                if (statusValues.length !== raw.statusValues.length) {
+                    report.warnings.push(`${label} ("${title}") contains empty or non-text statusValues which were ignored.`);
+                }
+            } else if (typeof raw.statusValues === 'string' && raw.statusValues.trim()) {
+                statusValues = [raw.statusValues.trim()];
+            } else if (raw.statusValues !== undefined) {
+                report.warnings.push(`${label} ("${title}") has invalid statusValues.`);
+            }
+            if (statusValues.length === 0) {
+                statusValues = [title];
+                report.warnings.push(`${label} ("${title}") has no statusValues, matching on its title instead.`);
+            }
+
+            const column: ColumnDefinition = { id, title, statusValues };
+
+            if (raw.color !== undefined) {
+                if (typeof raw.color === 'string' && raw.color.trim()) {
+                    column.color = raw.color.trim();
+                } else {
+                    report.warnings.push(`${label} ("${title}") has an invalid color which was ignored.`);
+                }
+            }
+
+            if (raw.order !== undefined) {
+                const order = Number(raw.order);
+                if (typeof raw.order !== 'boolean' && raw.order !== null && raw.order !== '' && !isNaN(order)) {
+                    column.order = order;
+                } else {
+                    report.warnings.push(`${label} ("${title}") has a non-numeric order which was ignored.`);
+                }
+            }
+
+            (['wipMin', 'wipMax'] as const).forEach(field => {
+                if (raw[field] === undefined || raw[field] === null) return;
+                const limit = Number(raw[field]);
+                if (typeof raw[field] !== 'boolean' && raw[field] !== '' && Number.isInteger(limit) && limit >= 0) {
+                    column[field] = limit;
+                } else {
+                    report.warnings.push(`${label} ("${title}") has an invalid ${field} (expected a whole number >= 0) which was ignored.`);
+                }
+            });
+            if (column.wipMin !== undefined && column.wipMax !== undefined && column.wipMin > column.wipMax) {
+                report.warnings.push(`${label} ("${title}") has wipMin greater than wipMax.`);
+            }
+            if (raw.wipHard !== undefined) {
+                if (typeof raw.wipHard === 'boolean') {
+                    column.wipHard = raw.wipHard;
+                } else {
+                    report.warnings.push(`${label} ("${title}") has a non-boolean wipHard which was ignored.`);
+                }
+            }
+
+            if (raw.sortBy !== undefined) {
+                if (typeof raw.sortBy === 'string' && this.parseSortSpec(raw.sortBy).length > 0) {
+                    column.sortBy = raw.sortBy.trim();
+                } else {
+                    report.warnings.push(`${label} ("${title}") has an invalid sortBy (expected e.g. "priority:desc,duedate:asc") which was ignored.`);
+                }
+            }
+
+            if (raw.allowedTransitions !== undefined) {
+                const targets = typeof raw.allowedTransitions === 'string' ? [raw.allowedTransitions] : raw.allowedTransitions;
+                if (Array.isArray(targets) && targets.every(t => typeof t === 'string' || typeof t === 'number')) {
+                    column.allowedTransitions = targets.map(t => String(t).trim()).filter(t => t.length > 0);
+                } else {
+                    report.warnings.push(`${label} ("${title}") has invalid allowedTransitions (expected an array of column ids or "*") which were ignored.`);
+                }
+            }
+
+            Object.keys(raw)
+                .filter(key => !knownFields.includes(key))
+                .forEach(key => report.warnings.push(`${label} ("${title}") has an unknown field "${key}" which was ignored.`));
+
+            usedIds.add(id);
+            columns.push(column);
+        });
+
+        // Transitions can point forward, so they are checked once all ids are known
+        columns.forEach(column => {
+            if (!column.allowedTransitions) return;
+            const unknown = column.allowedTransitions.filter(t => !this.isTransitionWildcard(t) && !usedIds.has(t));
+            if (unknown.length > 0) {
+                report.warnings.push(`Column "${column.id}" allows transitions to unknown columns (${unknown.join(', ')}) which were ignored.`);
+                column.allowedTransitions = column.allowedTransitions.filter(t => !unknown.includes(t));
+            }
+        });
+
+        // Explicit order first (ascending), columns without order keep their position after them
+        const sorted = columns
+            .map((column, index) => ({ column, index }))
+            .sort((a, b) => {
+                const orderA = a.column.order ?? Number.MAX_SAFE_INTEGER;
+                const orderB = b.column.order ?? Number.MAX_SAFE_INTEGER;
+                return orderA !== orderB ? orderA - orderB : a.index - b.index;
+            })
+            .map(item => item.column);
+
+        // A status goes to the first column in board order that maps it, so duplicates are checked in that order
+        const statusOwners: Record<string, string> = {};
+        sorted.forEach(column => column.statusValues.forEach(status => {
+            const key = status.toLowerCase();
+            if (statusOwners[key]) {
+                report.warnings.push(`Status "${status}" is mapped by both "${statusOwners[key]}" and "${column.id}", "${statusOwners[key]}" wins.`);
+            } else {
+                statusOwners[key] = column.id;
+            }
+        }));
+        return sorted;
+    }
+
+    private publishDiagnostics(): void {
+        const output = JSON.stringify(this._diagnostics);
+        if (output !== this._diagnosticsOutput) {
+            this._diagnosticsOutput = output;
+            this._notifyOutputChanged();
+        }
+    }
+
+    private publishColumnConfiguration(): void {
+        const output = JSON.stringify({ ...this._columnConfigReport, layout: this.getColumnLayout() });
+        if (output !== this._columnConfigOutput) {
+            this._columnConfigOutput = output;
+            this._notifyOutputChanged();
+        }
+    }
+
+    /**
+     * Reads a saved layout from columnLayout: either the whole columnConfiguration output or just its
+     * layout array. Columns missing from the layout keep their configured position.
+     */
+    private updateColumnLayout(): void {
+        const raw = this._context.parameters.columnLayout?.raw || '';
+        if (raw === this._columnLayoutInput) return;
+        this._columnLayoutInput = raw;
+        if (!raw.trim() || raw === this._columnConfigOutput) return;
+
+        let entries: unknown;
+        try {
+            const parsed = JSON.parse(raw) as unknown;
+            entries = Array.isArray(parsed) ? parsed : (parsed as { layout?: unknown })?.layout;
+        } catch (e) {
+            console.error("Invalid columnLayout JSON:", e);
+            return;
+        }
+        if (!Array.isArray(entries)) {
+            console.warn("columnLayout: expected a layout array");
+            return;
+        }
+
+        const layout = entries.filter((entry): entry is ColumnLayoutEntry =>
+            !!entry && typeof entry === 'object' && typeof (entry as ColumnLayoutEntry).id === 'string');
+
+        this._columnLayoutOrder = layout.map(entry => entry.id);
+        this._collapsedColumns = new Set(layout.filter(entry => entry.collapsed === true).map(entry => entry.id));
+        this._columnWidths = {};
+        layout.forEach(entry => {
+            if (typeof entry.width === 'number' && entry.width > 0) {
+                this._columnWidths[entry.id] = Math.max(COLUMN_RESIZE_MIN_PX, Math.min(COLUMN_RESIZE_MAX_PX, Math.round(entry.width)));
+            }
+            if (typeof entry.sortBy === 'string') {
+                this._columnSortOverrides[entry.id] = entry.sortBy;
+            } else {
+                delete this._columnSortOverrides[entry.id];
+            }
+        });
+    }
+
+    // Saved order first, new columns at their configured index
+    private applyColumnLayoutOrder(): void {
+        const current = this._boardData.columnOrder;
+        if (this._columnLayoutOrder.length === 0 || !current) return;
+
+        const ordered = this._columnLayoutOrder.filter(id => current.includes(id));
+        current.forEach((id, index) => {
+            if (!ordered.includes(id)) ordered.splice(Math.min(index, ordered.length), 0, id);
+        });
+        this._boardData.columnOrder = ordered;
+    }
+
+    private getColumnLayout(): ColumnLayoutEntry[] {
+        return (this._boardData?.columnOrder || [])
+            .filter(id => id !== UNMAPPED_COLUMN_ID)
+            .map(id => ({
+                id,
+                collapsed: this._collapsedColumns.has(id),
+                ...(this._columnWidths[id] ? { width: this._columnWidths[id] } : {}),
+                ...(this._columnSortOverrides[id] !== undefined ? { sortBy: this._columnSortOverrides[id] } : {})
+            }));
+    }
+
+    // Layout changed by the user: re-render and report it so the app can store it
+    private commitColumnLayout(focusColumnId?: string): void {
+        this._columnLayoutOrder = this._boardData.columnOrder.filter(id => id !== UNMAPPED_COLUMN_ID);
+        this.renderBoard();
+        this.publishColumnConfiguration();
+        if (focusColumnId) {
+            this.getColumnShells(focusColumnId)
+                .map(shell => shell.querySelector<HTMLElement>('.kanban-column-header'))
+                .find(header => !!header)
+                ?.focus();
+        }
     }
 
     private parseQuickColumnSetup(setup: string): ColumnDefinition[] {
+        return this.splitStatusList(setup).map((status, index) => ({
+            id: `col_${index}`,
+            title: status,
+            statusValues: [status]
+        }));
+    }
+
+    // Splits "[A,B]", "A|B" or "A,B" into trimmed, non-empty entries
+    private splitStatusList(setup: string): string[] {
         const statuses: string[] = [];
 
         if (setup.startsWith('[') && setup.endsWith(']')) {
@@ -226,11 +1128,50 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
             statuses.push(...setup.split(',').map(s => s.trim()));
         }
 
-        return statuses.filter(s => s.length > 0).map((status, index) => ({
-            id: `col_${index}`,
-            title: status,
-            statusValues: [status]
-        }));
+        return statuses.filter(s => s.length > 0);
+    }
+
+    private isAutoColumnMode(): boolean {
+        return this._context.parameters.columnMode?.raw === 'Auto';
+    }
+
+    /**
+     * Auto column mode: builds one column per distinct status. Statuses listed in statusOrder come first
+     * (even without tasks), the rest follow in first-seen order. Statuses stay once seen, so columns keep
+     * their position and don't disappear when their last card is moved out.
+     */
+    private applyAutoColumnDefinitions(statuses: string[]): void {
+        const ordering = this.splitStatusList(this._context.parameters.statusOrder?.raw?.trim() || '');
+        const known = new Set(this._autoStatuses.map(s => s.toLowerCase()));
+
+        [...ordering, ...statuses].forEach(status => {
+            const key = status.toLowerCase();
+            if (status && !known.has(key)) {
+                known.add(key);
+                this._autoStatuses.push(status);
+            }
+        });
+
+        const rank = (status: string) => {
+            const index = ordering.findIndex(o => o.toLowerCase() === status.toLowerCase());
+            return index === -1 ? ordering.length : index;
+        };
+        const ordered = this._autoStatuses
+            .map((status, index) => ({ status, index }))
+            .sort((a, b) => (rank(a.status) - rank(b.status)) || (a.index - b.index))
+            .map(item => item.status);
+
+        const usedIds = new Set<string>();
+        const columns = ordered.map(status => {
+            const baseId = `status_${status.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`;
+            let id = baseId;
+            for (let i = 2; usedIds.has(id); i++) id = `${baseId}_${i}`;
+            usedIds.add(id);
+            return { id, title: status, statusValues: [status] };
+        });
+
+        this._columnDefinitions = columns;
+        this._columnConfigReport = { source: 'dataset', columns, errors: [], warnings: [] };
     }
 
     private getDefaultColumnDefinitions(): ColumnDefinition[] {
@@ -470,21 +1411,41 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
 
         const dataSet = this._context.parameters.taskDataSet;
         const legacyData = this._context.parameters.tasksData;
+        // The loaders replace the tasks and columns, the previous ones stay intact for the delta
+        const previous: BoardData = { ...this._boardData };
+
+        this._diagnostics = {
+            unmappedCount: 0,
+            unmappedStatuses: [],
+            loadedRecords: 0,
+            totalRecords: -1,
+            hasMoreRecords: false,
+            writeBackError: this._diagnostics.writeBackError,
+            moveFailure: this._diagnostics.moveFailure
+        };
+        this._dataSource = 'samples';
 
         // 1. Try Dataset
         if (dataSet && dataSet.loading === false && dataSet.sortedRecordIds && dataSet.sortedRecordIds.length > 0) {
             console.log("Loading from Dataset");
+            this._dataSource = 'dataset';
             this.loadFromDataset();
 
+            this._diagnostics.loadedRecords = dataSet.sortedRecordIds.length;
+            this._diagnostics.totalRecords = dataSet.paging?.totalResultCount ?? -1;
+            this._diagnostics.hasMoreRecords = this.hasMoreDatasetRecords();
+
             // If dataset loading resulted in 0 tasks (e.g. empty records), fallback to samples
             if (Object.keys(this._boardData.tasks).length === 0) {
                 console.log("Dataset yielded no tasks. Falling back to Samples.");
                 this._boardData = this.getEmptyBoardDataWithSamples();
             }
+            this.applyPendingCreates();
         }
         // 2. Try JSON Property
         else if (legacyData && legacyData.raw) {
             console.log("Loading from JSON");
+            this._dataSource = 'json';
             this.loadFromLegacyData();
         }
         // 3. Fallback to Samples
@@ -492,36 +1453,111 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
             console.log("Loading Samples (Fallback)");
             this._boardData = this.getEmptyBoardDataWithSamples();
         }
+
+        this.applyColumnLayoutOrder();
+        this.trackBoardChanges(previous);
     }
 
-    private loadFromDataset(): void {
-        // Initialize empty board structure to populate
-        const tasks: Record<string, Task> = {};
+    private updatePaging(): void {
+        const dataSet = this._context.parameters.taskDataSet;
+        const pageSize = this._context.parameters.pageSize?.raw || 0;
+        if (!dataSet?.paging || pageSize <= 0 || pageSize === this._appliedPageSize) return;
 
-        // Clear existing task IDs in columns but keep the column structure
-        Object.keys(this._boardData.columns).forEach(colId => {
-            this._boardData.columns[colId].taskIds = [];
-        });
+        this._appliedPageSize = pageSize;
+        if (dataSet.paging.pageSize !== pageSize) {
+            dataSet.paging.setPageSize(pageSize);
+            dataSet.refresh();
+        }
+    }
 
+    private hasMoreDatasetRecords(): boolean {
         const dataSet = this._context.parameters.taskDataSet;
+        return this._dataSource === 'dataset' && !!dataSet?.paging?.hasNextPage;
+    }
 
-        if (!dataSet || !dataSet.sortedRecordIds) return;
+    private isPageRequestPending(): boolean {
+        const loaded = this._context.parameters.taskDataSet?.sortedRecordIds?.length ?? 0;
+        if (this._pageRequestRecordCount !== null && (loaded !== this._pageRequestRecordCount || !this.hasMoreDatasetRecords())) {
+            this._pageRequestRecordCount = null;
+        }
+        return this._pageRequestRecordCount !== null;
+    }
 
-        dataSet.sortedRecordIds.forEach(recordId => {
-            const record = dataSet.records[recordId];
+    // New records arrive through a later updateView
+    private requestNextPage(): void {
+        const dataSet = this._context.parameters.taskDataSet;
+        if (!this.hasMoreDatasetRecords() || this.isPageRequestPending()) return;
 
-            // Safe helper to get value or alias
-            const getValue = (alias: string) => {
-                try {
-                    // Debug what values we are getting
-                    const val = record.getFormattedValue(alias);
-                    return val;
-                } catch (e) {
-                    return "";
-                }
-            };
+        this._pageRequestRecordCount = dataSet.sortedRecordIds.length;
+        dataSet.paging.loadNextPage();
+    }
 
-            console.log("Record:", recordId, "Title:", getValue('title'), "Status:", getValue('status'));
+    private autoLoadNextPage(): void {
+        if (this._context.parameters.pagingMode?.raw === 'Automatic' && !this._context.parameters.taskDataSet?.loading) {
+            this.requestNextPage();
+        }
+    }
+
+    private createPagingStatus(): HTMLElement | null {
+        const { loadedRecords, totalRecords, hasMoreRecords } = this._diagnostics;
+        if (this._dataSource !== 'dataset' || (!hasMoreRecords && (totalRecords < 0 || totalRecords <= loadedRecords))) return null;
+
+        const status = document.createElement('div');
+        status.className = 'kanban-paging-status';
+        status.style.color = this._styleConfig.secondaryTextColor;
+        status.style.fontFamily = this._styleConfig.fontFamily;
+
+        const text = document.createElement('span');
+        text.textContent = totalRecords >= 0
+            ? `Showing ${loadedRecords} of ${totalRecords} tasks`
+            : `Showing ${loadedRecords} tasks, more available`;
+        status.appendChild(text);
+
+        if (hasMoreRecords) {
+            status.appendChild(this.createLoadPageButton('Load more'));
+        }
+        return status;
+    }
+
+    private createLoadPageButton(label: string): HTMLElement {
+        const button = document.createElement('button');
+        button.className = 'kanban-load-more';
+        const pending = this.isPageRequestPending();
+        button.textContent = pending ? 'Loading…' : label;
+        button.disabled = pending;
+        button.onclick = (e) => {
+            e.stopPropagation();
+            this.requestNextPage();
+            button.textContent = 'Loading…';
+            button.disabled = true;
+        };
+        return button;
+    }
+
+    private loadFromDataset(): void {
+        // Initialize empty board structure to populate
+        const tasks: Record<string, Task> = {};
+        const taskOrder: string[] = [];
+
+        const dataSet = this._context.parameters.taskDataSet;
+
+        if (!dataSet || !dataSet.sortedRecordIds) return;
+
+        dataSet.sortedRecordIds.forEach(recordId => {
+            const record = dataSet.records[recordId];
+
+            // Safe helper to get value or alias
+            const getValue = (alias: string) => {
+                try {
+                    // Debug what values we are getting
+                    const val = record.getFormattedValue(alias);
+                    return val;
+                } catch (e) {
+                    return "";
+                }
+            };
+
+            console.log("Record:", recordId, "Title:", getValue('title'), "Status:", getValue('status'));
 
             // Detect if this is just harness mock data (all values are 'val')
             if (getValue('title') === 'val' && getValue('status') === 'val') {
@@ -536,18 +1572,28 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
                 priority: getValue('priority'),
                 assignedTo: getValue('assignedto'),
                 dueDate: getValue('duedate'),
+                dueDateValue: this.parseDueDateValue(this.getRawValue(record, 'duedate')),
                 description: getValue('description'),
                 recordId: recordId,
-                authorFirstName: getValue('authorFirstNameField')
+                authorFirstName: getValue('authorFirstNameField'),
+                rank: this.parseRank(record),
+                fields: {}
             };
 
+            dataSet.columns.forEach(column => {
+                task.fields![column.name] = getValue(column.name);
+                if (column.alias && column.alias !== column.name) {
+                    task.fields![column.alias] = task.fields![column.name];
+                }
+            });
+
             // OPTIMISTIC CHECK: If this task was recently moved locally, prevent dataset from overwriting it immediately
             if (this._boardData.tasks[task.id] && this._boardData.tasks[task.id].isOptimistic) {
                 const currentOptimisticStatus = this._boardData.tasks[task.id].status;
                 const incomingStatus = getValue('status') || 'Unknown';
 
                 // Normalize for comparison
-                if (currentOptimisticStatus !== incomingStatus) {
+                if (!this.isSameStatus(currentOptimisticStatus, incomingStatus)) {
                     // The dataset is still stale (old status), but we moved it.
                     // Keep our local version.
                     task.status = currentOptimisticStatus;
@@ -558,24 +1604,121 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
                 }
             }
 
+            // Same for other fields changed locally, e.g. the lane field after a move between swimlanes
+            const previousFields = this._boardData.tasks[task.id]?.optimisticFields;
+            if (previousFields) {
+                const stillPending: Record<string, string> = {};
+                Object.keys(previousFields).forEach(field => {
+                    if (this.getTaskFieldValue(task, field).toLowerCase() !== previousFields[field].toLowerCase()) {
+                        this.setTaskFieldValue(task, field, previousFields[field]);
+                        stillPending[field] = previousFields[field];
+                    }
+                });
+                if (Object.keys(stillPending).length > 0) task.optimisticFields = stillPending;
+            }
+
+            // Saved edits stay on the card until the record holds the edited values
+            const pendingEdit = this._pendingEdits[task.id];
+            if (pendingEdit) {
+                const unsaved = Object.keys(pendingEdit.changes)
+                    .filter(field => !this.isSameFieldValue(record, field, pendingEdit.changes[field]));
+                unsaved.forEach(field => this.setTaskFieldValue(task, field, pendingEdit.changes[field]));
+                if (unsaved.length === 0) this.confirmPendingEdit(task.id);
+            }
+
+            // The data source has caught up with the status and lane this card was moved to
+            const pendingMove = this._pendingMoves[task.id];
+            if (pendingMove && !task.isOptimistic) {
+                const laneField = pendingMove.rollback.laneField;
+                if (!laneField || task.optimisticFields?.[laneField] === undefined) {
+                    this.confirmPendingMove(task.id);
+                }
+            }
+
             // Add to tasks map
             tasks[task.id] = task;
+            taskOrder.push(task.id);
+        });
 
+        if (this.isAutoColumnMode()) {
+            this.applyAutoColumnDefinitions(taskOrder.map(id => tasks[id].status));
+        }
+
+        // Rebuild the column structure from the current definitions (they may have changed)
+        const emptyBoard = this.getEmptyBoardData();
+        this._boardData.columns = emptyBoard.columns;
+        this._boardData.columnOrder = emptyBoard.columnOrder;
+
+        taskOrder.forEach(taskId => {
             // Assign to column
-            const columnId = this.getColumnIdByStatus(task.status);
-            if (columnId && this._boardData.columns[columnId]) {
-                this._boardData.columns[columnId].taskIds.push(task.id);
-            } else {
-                // If no matching column, maybe put in first column or a 'fallback' column?
-                // For now, put in first column
-                const firstColId = this._boardData.columnOrder[0];
-                if (firstColId) {
-                    this._boardData.columns[firstColId].taskIds.push(task.id);
-                }
+            const columnId = this.resolveColumnIdForStatus(this._boardData, tasks[taskId].status);
+            if (columnId) {
+                this._boardData.columns[columnId].taskIds.push(taskId);
             }
         });
 
         this._boardData.tasks = tasks;
+        this.sortColumnsByRank(this._boardData);
+    }
+
+    private getRawValue(record: ComponentFramework.PropertyHelper.DataSetApi.EntityRecord, alias: string): unknown {
+        try {
+            return record.getValue(alias);
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    /**
+     * Whether a record holds an edited value. Raw values are compared so that date, number and
+     * casing formats do not matter; Choice and lookup columns fall back to their formatted text.
+     */
+    private isSameFieldValue(record: ComponentFramework.PropertyHelper.DataSetApi.EntityRecord, field: string, value: string): boolean {
+        const raw = this.getRawValue(record, field);
+        const text = value.trim();
+
+        if (raw instanceof Date) {
+            const date = new Date(text);
+            if (!isNaN(date.getTime()) && date.toISOString().slice(0, 10) === raw.toISOString().slice(0, 10)) return true;
+        } else if (typeof raw === 'number') {
+            if (text !== '' && Number(text) === raw) return true;
+        } else if (typeof raw === 'string' || raw === null || raw === undefined) {
+            if ((raw ?? '').trim().toLowerCase() === text.toLowerCase()) return true;
+        }
+
+        let formatted = '';
+        try {
+            formatted = record.getFormattedValue(field) || '';
+        } catch (e) {
+            return false;
+        }
+        return formatted.trim().toLowerCase() === text.toLowerCase();
+    }
+
+    private parseRank(record: ComponentFramework.PropertyHelper.DataSetApi.EntityRecord): number | undefined {
+        try {
+            const value = record.getValue('sortorder');
+            if (value === null || value === undefined || value === '') return undefined;
+            const rank = Number(value);
+            return isNaN(rank) ? undefined : rank;
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    // Saved order: ranked tasks ascending, unranked ones keep their data order after them
+    private sortColumnsByRank(board: BoardData): void {
+        Object.values(board.columns).forEach(column => {
+            column.taskIds = column.taskIds
+                .map((taskId, index) => ({ taskId, index, rank: board.tasks[taskId]?.rank }))
+                .sort((a, b) => {
+                    if (a.rank !== undefined && b.rank !== undefined) return (a.rank - b.rank) || (a.index - b.index);
+                    if (a.rank !== undefined) return -1;
+                    if (b.rank !== undefined) return 1;
+                    return a.index - b.index;
+                })
+                .map(item => item.taskId);
+        });
     }
 
     private loadFromLegacyData(): void {
@@ -590,13 +1733,17 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
             }
             // If it's just an array of tasks (simplified JSON input)
             else if (Array.isArray(parsedData)) {
-                this._boardData = emptyBoard;
+                if (this.isAutoColumnMode()) {
+                    this.applyAutoColumnDefinitions(parsedData.map((t: Task) => t.status).filter(status => typeof status === 'string'));
+                }
+                this._boardData = this.getEmptyBoardData();
                 parsedData.forEach((t: unknown) => {
                     const task = t as Task;
                     this._boardData.tasks[task.id] = task;
-                    const colId = this.getColumnIdByStatus(task.status);
+                    const colId = this.resolveColumnIdForStatus(this._boardData, task.status);
                     if (colId) this._boardData.columns[colId].taskIds.push(task.id);
                 });
+                this.sortColumnsByRank(this._boardData);
             }
             else {
                 this._boardData = { ...emptyBoard, ...parsedData };
@@ -608,20 +1755,24 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
     }
 
     private getEmptyBoardDataWithSamples(): BoardData {
+        if (this.isAutoColumnMode()) {
+            this.applyAutoColumnDefinitions(['Todo', 'In Progress', 'Review', 'Done']);
+        }
+
         const columns: Record<string, Column> = {};
         const columnOrder: string[] = [];
 
         this._columnDefinitions.forEach(colDef => {
-            columns[colDef.id] = {
-                id: colDef.id,
-                title: colDef.title,
-                taskIds: [],
-                statusValues: colDef.statusValues,
-                color: colDef.color
-            };
+            columns[colDef.id] = this.createColumnFromDefinition(colDef);
             columnOrder.push(colDef.id);
         });
 
+        const dueIn = (days: number) => {
+            const date = new Date();
+            date.setDate(date.getDate() + days);
+            return this.toDateKey(date, false);
+        };
+
         // Sample tasks with author information
         const sampleTasks: Record<string, Task> = {
             'task-1': {
@@ -629,7 +1780,7 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
                 title: 'Implement new API endpoints',
                 status: 'Todo',
                 priority: 'high',
-                dueDate: 'Today',
+                dueDate: dueIn(0),
                 assignedTo: 'john.smith@company.com',
                 authorFirstName: 'John',
                 authorLastName: 'Smith',
@@ -642,7 +1793,7 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
                 title: 'Fix user interface bug',
                 status: 'In Progress',
                 priority: 'medium',
-                dueDate: 'Tomorrow',
+                dueDate: dueIn(1),
                 assignedTo: 'mary.johnson@company.com',
                 authorFirstName: 'Mary',
                 authorLastName: 'Johnson',
@@ -654,7 +1805,7 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
                 title: 'Update documentation',
                 status: 'Review',
                 priority: 'low',
-                dueDate: 'Next week',
+                dueDate: dueIn(7),
                 assignedTo: 'sarah.wilson@company.com',
                 authorFirstName: 'Sarah',
                 authorLastName: 'Wilson',
@@ -667,7 +1818,7 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
                 title: 'Test new features',
                 status: 'Done',
                 priority: 'high',
-                dueDate: 'Yesterday',
+                dueDate: dueIn(-1),
                 assignedTo: 'mike.davis@company.com',
                 authorFirstName: 'Mike',
                 authorLastName: 'Davis',
@@ -679,7 +1830,7 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
                 title: 'Prepare client presentation',
                 status: 'Todo',
                 priority: 'medium',
-                dueDate: 'Friday',
+                dueDate: dueIn(3),
                 assignedTo: 'anna.brown@company.com',
                 authorFirstName: 'Anna',
                 authorLastName: 'Brown',
@@ -692,7 +1843,7 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
                 title: 'Code review and merge requests',
                 status: 'In Progress',
                 priority: 'low',
-                dueDate: 'Monday',
+                dueDate: dueIn(5),
                 assignedTo: 'david.taylor@company.com',
                 authorFirstName: 'David',
                 authorLastName: 'Taylor',
@@ -700,26 +1851,84 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
             }
         };
 
-        // Assign tasks to columns
-        columns['todo'].taskIds = ['task-1', 'task-5'];
-        columns['inprogress'].taskIds = ['task-2', 'task-6'];
-        columns['review'].taskIds = ['task-3'];
-        columns['done'].taskIds = ['task-4'];
-
-        return {
+        const board: BoardData = {
             tasks: sampleTasks,
             columns,
             columnOrder
         };
+
+        // Assign tasks to columns through the configured status mapping
+        Object.values(sampleTasks).forEach(task => {
+            const colId = this.resolveColumnIdForStatus(board, task.status);
+            if (colId) columns[colId].taskIds.push(task.id);
+        });
+
+        return board;
+    }
+
+    // Data sources may return a status in another casing, or another status value of the same column
+    private isSameStatus(status: string, otherStatus: string): boolean {
+        if (status.toLowerCase() === otherStatus.toLowerCase()) return true;
+        const columnId = this.getColumnIdByStatus(status);
+        return !!columnId && columnId === this.getColumnIdByStatus(otherStatus);
     }
 
     private getColumnIdByStatus(status: string): string | null {
         for (const column of this._columnDefinitions) {
-            if (column.statusValues.some(val => val.toLowerCase() === status.toLowerCase())) {
+            if (column.statusValues.some(val => val.toLowerCase() === (status || '').toLowerCase())) {
                 return column.id;
             }
         }
-        return this._columnDefinitions[0]?.id || null;
+        return null;
+    }
+
+    /**
+     * Column for a task status. Unknown statuses are recorded in the diagnostics and go to the
+     * Unmapped column when enabled (created on demand), otherwise to the first column.
+     */
+    private resolveColumnIdForStatus(board: BoardData, status: string): string | null {
+        const columnId = this.getColumnIdByStatus(status);
+        if (columnId && board.columns[columnId]) return columnId;
+
+        const rawStatus = status || '';
+        this._diagnostics.unmappedCount++;
+        const entry = this._diagnostics.unmappedStatuses.find(s => s.status === rawStatus);
+        if (entry) {
+            entry.count++;
+        } else {
+            this._diagnostics.unmappedStatuses.push({ status: rawStatus, count: 1 });
+        }
+
+        if (!this._showUnmappedColumn) {
+            return board.columnOrder[0] || null;
+        }
+
+        if (!board.columns[UNMAPPED_COLUMN_ID]) {
+            board.columns[UNMAPPED_COLUMN_ID] = {
+                id: UNMAPPED_COLUMN_ID,
+                title: 'Unmapped / Unknown status',
+                taskIds: [],
+                statusValues: [],
+                isUnmapped: true
+            };
+            board.columnOrder.unshift(UNMAPPED_COLUMN_ID);
+        }
+        return UNMAPPED_COLUMN_ID;
+    }
+
+    private createColumnFromDefinition(colDef: ColumnDefinition): Column {
+        return {
+            id: colDef.id,
+            title: colDef.title,
+            taskIds: [],
+            statusValues: colDef.statusValues,
+            color: colDef.color,
+            wipMin: colDef.wipMin,
+            wipMax: colDef.wipMax,
+            wipHard: colDef.wipHard,
+            sortBy: colDef.sortBy,
+            allowedTransitions: colDef.allowedTransitions
+        };
     }
 
     private getEmptyBoardData(): BoardData {
@@ -727,13 +1936,7 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
         const columnOrder: string[] = [];
 
         this._columnDefinitions.forEach(colDef => {
-            columns[colDef.id] = {
-                id: colDef.id,
-                title: colDef.title,
-                taskIds: [],
-                statusValues: colDef.statusValues,
-                color: colDef.color
-            };
+            columns[colDef.id] = this.createColumnFromDefinition(colDef);
             columnOrder.push(colDef.id);
         });
 
@@ -750,7 +1953,16 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
         const boardHeight = this._context.parameters.boardHeight?.raw || 0;
         const enableDragDrop = this._context.parameters.enableDragDrop?.raw !== false;
 
-        this._container.innerHTML = '';
+        // Changed cards are recreated, keep keyboard focus on the same card
+        const focusedCard = document.activeElement instanceof HTMLElement && this._container.contains(document.activeElement)
+            ? document.activeElement.closest('.kanban-task-card')
+            : null;
+        const focusedTaskId = focusedCard?.getAttribute('data-task-id') || this._keyboardMove?.taskId || null;
+        const scrollPositions = this.captureScrollPositions();
+
+        // Drop selected cards that left the board (reload, filter of the data source)
+        this._selection = this._selection.filter(id => !!this._boardData.tasks[id] && !this._pendingCreates[id]);
+
         this._container.className = 'kanban-board-container';
         // Dynamic height: 0 means 100% (fill parent), otherwise fixed pixel height
         this._container.style.height = boardHeight > 0 ? `${boardHeight}px` : '100%';
@@ -765,20 +1977,11 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
 
         this.applyBoardAlignment(this._container);
 
-        const boardWrapper = document.createElement('div');
-
         console.log("Rendering Board Data:", {
             tasks: this._boardData ? Object.keys(this._boardData.tasks).length : 'No Data',
             columns: this._boardData ? this._boardData.columnOrder.length : 'No Data',
             columnOrder: this._boardData?.columnOrder
         });
-        boardWrapper.className = 'kanban-board-wrapper';
-        boardWrapper.style.display = 'flex';
-        boardWrapper.style.gap = `${this._layoutConfig.columnSpacing}px`;
-        boardWrapper.style.height = '100%';
-        boardWrapper.style.padding = `${this._context.parameters.cardSpacing?.raw || 10}px`; // Use card spacing or a board padding default
-
-        this.applyColumnsAlignment(boardWrapper);
 
         const totalColumns = this._boardData.columnOrder.length;
         let columnWidth = this._layoutConfig.columnWidth;
@@ -797,33 +2000,195 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
             );
         }
 
-        this._boardData.columnOrder.forEach((columnId) => {
-            const column = this._boardData.columns[columnId];
-            if (column) {
-                const columnElement = this.createColumn(column, columnWidth, enableDragDrop);
-                boardWrapper.appendChild(columnElement);
+        this._renderContextKey = this.getRenderContextKey(enableDragDrop);
+        this._nextRenderedElements = {};
+        this._virtualLists = {};
+        const children: HTMLElement[] = [];
+
+        if (this._context.parameters.showToolbar?.raw !== false) {
+            children.push(this.createFilterToolbar());
+        }
+
+        const pagingStatus = this.createPagingStatus();
+        if (pagingStatus) {
+            children.push(pagingStatus);
+        }
+
+        if (this._selection.length > 0) {
+            children.push(this.createSelectionBar(enableDragDrop));
+        }
+
+        const swimlaneField = this.getSwimlaneField();
+        const boardWrapper = this.renderKeyed('board', JSON.stringify([this._renderContextKey, !!swimlaneField]),
+            () => this.createBoardWrapper(!!swimlaneField));
+        if (swimlaneField) {
+            this.renderSwimlanes(boardWrapper, swimlaneField, columnWidth, enableDragDrop);
+        } else {
+            this.patchChildren(boardWrapper, this._boardData.columnOrder
+                .filter(columnId => !!this._boardData.columns[columnId])
+                .map(columnId => this.renderColumn(this._boardData.columns[columnId], columnWidth, enableDragDrop)));
+        }
+
+        children.push(boardWrapper, this.getLiveRegion());
+        // An open share popup or detail panel stays on top of the patched board
+        children.push(...Array.from(this._container.querySelectorAll<HTMLElement>(':scope > .kanban-overlay')));
+        this.patchChildren(this._container, children);
+
+        this._renderedElements = this._nextRenderedElements;
+        this.restoreScrollPositions(scrollPositions);
+        this.clearDisallowedColumns();
+        // Windows were computed before the new elements were laid out
+        this.scheduleVirtualUpdate();
+
+        if (focusedTaskId) {
+            const card = this.getCardElement(focusedTaskId);
+            if (card && document.activeElement !== card) card.focus();
+        }
+        if (this._keyboardMove) {
+            this.markDisallowedColumns(this._keyboardMove.taskId);
+            this.showKeyboardTarget();
+        }
+    }
+
+    // Reuses the element rendered last time under this id when its key is unchanged, otherwise builds a new one
+    private renderKeyed(id: string, key: string, build: () => HTMLElement): HTMLElement {
+        const previous = this._renderedElements[id];
+        const element = previous && previous.key === key ? previous.element : build();
+        this._nextRenderedElements[id] = { key, element };
+        return element;
+    }
+
+    // Puts the children in order, moving only misplaced nodes so reused elements keep their scroll and focus
+    private patchChildren(container: HTMLElement, children: HTMLElement[]): void {
+        children.forEach((child, index) => {
+            const current = container.childNodes[index] || null;
+            if (current !== child) {
+                container.insertBefore(child, current);
+            }
+        });
+        while (container.childNodes.length > children.length) {
+            container.removeChild(container.lastChild!);
+        }
+    }
+
+    // Inputs shared by every card and column: a change rebuilds the whole board once
+    private getRenderContextKey(enableDragDrop: boolean): string {
+        const parameters = this._context.parameters;
+        return JSON.stringify([
+            this.getStyleKey(),
+            enableDragDrop,
+            this.usePointerDrag(),
+            parameters.cardSpacing?.raw ?? null,
+            parameters.enableQuickCreate?.raw ?? null,
+            parameters.sortBy?.raw ?? null,
+            parameters.dueDateFormat?.raw ?? null,
+            parameters.dueSoonDays?.raw ?? null,
+            // Relative due dates and due states change at midnight
+            this.toDateKey(new Date(), false)
+        ]);
+    }
+
+    private getStyleKey(): string {
+        return JSON.stringify([
+            this._styleConfig, this._radiusConfig, this._shadowConfig, this._hoverConfig, this._alignmentConfig,
+            this._textConfig, this._layoutConfig, this._authorConfig, this._shareModalConfig, this._showPriorityBadge
+        ]);
+    }
+
+    // Everything a column frame shows apart from its cards
+    private getColumnRenderKey(column: Column, width: number, laneValue?: string): string {
+        return JSON.stringify([
+            this._renderContextKey,
+            width,
+            laneValue ?? null,
+            { ...column, taskIds: column.taskIds.length },
+            this.getColumnCountText(column),
+            this.getWipState(column),
+            this._collapsedColumns.has(column.id),
+            this._columnWidths[column.id] ?? null,
+            this.getColumnSortSpec(column),
+            this._sortMenuColumnId === column.id
+        ]);
+    }
+
+    // Scroll offsets of the board and of every card list, restored after elements were rebuilt
+    private captureScrollPositions(): Record<string, [number, number]> {
+        const positions: Record<string, [number, number]> = {};
+        this.getScrollableElements().forEach(element => {
+            if (element.scrollTop || element.scrollLeft) {
+                positions[this.getScrollKey(element)] = [element.scrollTop, element.scrollLeft];
+            }
+        });
+        return positions;
+    }
+
+    private restoreScrollPositions(positions: Record<string, [number, number]>): void {
+        this.getScrollableElements().forEach(element => {
+            const saved = positions[this.getScrollKey(element)];
+            if (saved && (element.scrollTop !== saved[0] || element.scrollLeft !== saved[1])) {
+                element.scrollTop = saved[0];
+                element.scrollLeft = saved[1];
             }
         });
+    }
+
+    private getScrollableElements(): HTMLElement[] {
+        return [this._container, ...Array.from(this._container.querySelectorAll<HTMLElement>('.kanban-board-wrapper, .kanban-tasks-container'))];
+    }
+
+    private getScrollKey(element: HTMLElement): string {
+        if (element === this._container) return 'container';
+        if (!element.hasAttribute('data-column-id')) return 'wrapper';
+        return `${element.getAttribute('data-column-id')}\u0000${element.getAttribute('data-lane-value') ?? ''}`;
+    }
+
+    private createBoardWrapper(swimlanes: boolean): HTMLElement {
+        const boardWrapper = document.createElement('div');
+        boardWrapper.className = 'kanban-board-wrapper';
+        boardWrapper.style.display = 'flex';
+        boardWrapper.style.gap = `${this._layoutConfig.columnSpacing}px`;
+        boardWrapper.style.height = '100%';
+        boardWrapper.style.minHeight = '0'; // Let the paging status bar share the container height
+        boardWrapper.style.padding = `${this._context.parameters.cardSpacing?.raw || 10}px`; // Use card spacing or a board padding default
+
+        this.applyColumnsAlignment(boardWrapper);
 
-        this._container.appendChild(boardWrapper);
+        if (swimlanes) {
+            boardWrapper.classList.add('kanban-swimlanes');
+            boardWrapper.style.flexDirection = 'column';
+        }
+        return boardWrapper;
+    }
+
+    // Column frame reused while its header is unchanged; the cards inside are patched separately
+    private renderColumn(column: Column, width: number, enableDragDrop: boolean): HTMLElement {
+        const columnElement = this.renderKeyed(`column:${column.id}`, this.getColumnRenderKey(column, width),
+            () => this.createColumn(column, width, enableDragDrop));
+        const tasksContainer = columnElement.querySelector<HTMLElement>('.kanban-tasks-container:not(.kanban-collapsed-drop)');
+        if (tasksContainer) {
+            this.renderTasks(tasksContainer, column, enableDragDrop);
+        }
+        return columnElement;
     }
 
     private applyBoardAlignment(container: HTMLElement): void {
+        // Vertical flow so status bars stack above the board; horizontal alignment goes through alignItems
+        container.style.display = 'flex';
+        container.style.flexDirection = 'column';
+
         switch (this._alignmentConfig.boardHorizontal) {
             case 'Center':
-                container.style.display = 'flex';
-                container.style.justifyContent = 'center';
+                container.style.alignItems = 'center';
                 break;
             case 'Right':
-                container.style.display = 'flex';
-                container.style.justifyContent = 'flex-end';
+                container.style.alignItems = 'flex-end';
                 break;
             case 'Stretch':
                 container.style.width = '100%';
+                container.style.alignItems = 'stretch';
                 break;
             default:
-                container.style.display = 'flex';
-                container.style.justifyContent = 'flex-start';
+                container.style.alignItems = 'flex-start';
         }
     }
 
@@ -849,9 +2214,33 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
     }
 
     private createColumn(column: Column, width: number, enableDragDrop: boolean): HTMLElement {
+        const columnDiv = this.createColumnShell(column, width);
+        columnDiv.style.minHeight = '400px';
+
+        if (this.getWipState(column) === 'exceeded') {
+            columnDiv.classList.add('kanban-column-wip-exceeded');
+        }
+
+        if (this._collapsedColumns.has(column.id)) {
+            columnDiv.appendChild(this.createCollapsedColumnHeader(column));
+            columnDiv.appendChild(this.createCollapsedDropZone(column, enableDragDrop));
+            return columnDiv;
+        }
+
+        const header = this.createColumnHeader(column);
+        columnDiv.appendChild(header);
+        columnDiv.appendChild(this.createResizeHandle(column));
+
+        const tasksContainer = this.createTasksContainer(column, enableDragDrop);
+        columnDiv.appendChild(tasksContainer);
+
+        return columnDiv;
+    }
+
+    // Column element with sizing and colors, shared by regular columns and swimlane cells
+    private createColumnShell(column: Column, width: number): HTMLElement {
         const columnDiv = document.createElement('div');
-        columnDiv.className = 'kanban-column';
-        columnDiv.className = 'kanban-column';
+        columnDiv.className = column.isUnmapped ? 'kanban-column kanban-column-unmapped' : 'kanban-column';
 
         // Responsive Width Logic
         if (width > 0) {
@@ -869,88 +2258,1530 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
         if (this._layoutConfig.columnMaxWidth > 0 && this._layoutConfig.columnMaxWidth < 9999) {
             columnDiv.style.maxWidth = `${this._layoutConfig.columnMaxWidth}px`;
         }
-        columnDiv.style.minHeight = '400px';
         columnDiv.style.backgroundColor = column.color || this._styleConfig.columnBackgroundColor;
         columnDiv.style.borderRadius = '12px';
         columnDiv.style.border = `1px solid ${this.hexToRgba(this._styleConfig.primaryColor, 0.2)}`;
+        columnDiv.style.position = 'relative'; // Anchor for drop feedback messages
         columnDiv.setAttribute('data-column-id', column.id);
 
-        const header = this.createColumnHeader(column);
-        columnDiv.appendChild(header);
-
-        const tasksContainer = this.createTasksContainer(column, enableDragDrop);
-        columnDiv.appendChild(tasksContainer);
+        if (this._collapsedColumns.has(column.id)) {
+            columnDiv.classList.add('kanban-column-collapsed');
+            this.applyColumnWidth(columnDiv, COLUMN_COLLAPSED_WIDTH_PX);
+        } else if (this._columnWidths[column.id]) {
+            this.applyColumnWidth(columnDiv, this._columnWidths[column.id]);
+        }
 
         return columnDiv;
     }
 
-    private createColumnHeader(column: Column): HTMLElement {
+    // Inline !important so a user width also wins over the responsive min-width rules
+    private applyColumnWidth(columnDiv: HTMLElement, width: number): void {
+        columnDiv.style.setProperty('flex', `0 0 ${width}px`, 'important');
+        columnDiv.style.setProperty('min-width', `${width}px`, 'important');
+        columnDiv.style.setProperty('max-width', `${width}px`, 'important');
+    }
+
+    // Column element plus, with swimlanes, its cell in every lane
+    private getColumnShells(columnId: string): HTMLElement[] {
+        return Array.from(this._container.querySelectorAll<HTMLElement>('.kanban-column'))
+            .filter(shell => shell.getAttribute('data-column-id') === columnId);
+    }
+
+    private toggleColumnCollapsed(columnId: string): void {
+        if (this._collapsedColumns.has(columnId)) {
+            this._collapsedColumns.delete(columnId);
+        } else {
+            this._collapsedColumns.add(columnId);
+        }
+        this.commitColumnLayout(columnId);
+    }
+
+    private moveColumn(columnId: string, index: number): void {
+        const order = this._boardData.columnOrder.filter(id => id !== columnId);
+        const target = Math.max(0, Math.min(index, order.length));
+        if (this._boardData.columnOrder.indexOf(columnId) === target) return;
+
+        order.splice(target, 0, columnId);
+        this._boardData.columnOrder = order;
+        this._columnOrderDirty = true;
+        this.commitColumnLayout(columnId);
+        this.announce(`${this._boardData.columns[columnId].title} moved to position ${target + 1} of ${order.length}`);
+    }
+
+    // Narrow strip: expand button, count and the title written vertically
+    private createCollapsedColumnHeader(column: Column): HTMLElement {
         const header = document.createElement('div');
-        header.className = 'kanban-column-header';
-        header.style.padding = '12px';
-        header.style.borderBottom = `1px solid ${this.hexToRgba(this._styleConfig.primaryColor, 0.2)}`;
-        header.style.display = 'flex';
-        header.style.justifyContent = 'space-between';
-        header.style.alignItems = 'center';
+        header.className = 'kanban-column-header kanban-column-header-collapsed';
         header.style.backgroundColor = this._styleConfig.cardBackgroundColor;
-        header.style.borderRadius = '12px 12px 0 0';
 
-        const titleContainer = document.createElement('div');
-        titleContainer.style.display = 'flex';
-        titleContainer.style.alignItems = 'center';
-        titleContainer.style.gap = '8px';
-
-        const title = document.createElement('h3');
-        title.textContent = column.title;
-        title.style.margin = '0';
-        title.style.fontSize = `${this._styleConfig.fontSize}px`;
-        title.style.fontWeight = '600';
-        title.style.color = this._styleConfig.textColor;
-        title.style.fontFamily = this._styleConfig.fontFamily;
-        title.style.textAlign = this._alignmentConfig.text.toLowerCase() as 'left' | 'center' | 'right' | 'justify';
+        const expand = document.createElement('button');
+        expand.className = 'kanban-column-collapse-btn';
+        expand.textContent = '›';
+        expand.title = `Expand ${column.title}`;
+        expand.setAttribute('aria-label', expand.title);
+        expand.setAttribute('aria-expanded', 'false');
+        expand.onclick = (e) => {
+            e.stopPropagation();
+            this.toggleColumnCollapsed(column.id);
+        };
+        header.appendChild(expand);
 
         const taskCount = document.createElement('span');
-        taskCount.textContent = column.taskIds.length.toString();
+        taskCount.className = 'kanban-column-count';
+        taskCount.textContent = this.getColumnCountText(column);
         taskCount.style.backgroundColor = this.hexToRgba(this._styleConfig.primaryColor, 0.1);
         taskCount.style.color = this._styleConfig.primaryColor;
-        taskCount.style.fontSize = `${Math.max(10, this._styleConfig.fontSize - 2)}px`;
-        taskCount.style.padding = '2px 8px';
-        taskCount.style.borderRadius = '12px';
-        taskCount.style.fontWeight = '500';
-        taskCount.style.fontFamily = this._styleConfig.fontFamily;
+        header.appendChild(taskCount);
 
-        titleContainer.appendChild(title);
-        titleContainer.appendChild(taskCount);
-        header.appendChild(titleContainer);
+        const title = document.createElement('span');
+        title.className = 'kanban-column-collapsed-title';
+        title.textContent = column.title;
+        title.style.color = this._styleConfig.textColor;
+        header.appendChild(title);
 
+        this.setupColumnReorder(header, column);
         return header;
     }
 
-    private createTasksContainer(column: Column, enableDragDrop: boolean): HTMLElement {
-        const tasksContainer = document.createElement('div');
-        tasksContainer.className = 'kanban-tasks-container';
-        tasksContainer.style.padding = `${this._layoutConfig.cardSpacing}px`;
-        tasksContainer.style.minHeight = '300px';
-        tasksContainer.style.overflowY = 'auto';
-        tasksContainer.setAttribute('data-column-id', column.id);
-
-        this.applyCardsVerticalAlignment(tasksContainer);
-
-        if (enableDragDrop) {
-            this.setupDropZone(tasksContainer);
+    // Collapsed columns still take drops; cards go to the end of the column
+    private createCollapsedDropZone(column: Column, enableDragDrop: boolean, laneValue?: string): HTMLElement {
+        const zone = document.createElement('div');
+        zone.className = 'kanban-tasks-container kanban-collapsed-drop';
+        zone.setAttribute('data-column-id', column.id);
+        if (laneValue !== undefined) {
+            zone.setAttribute('data-lane-value', laneValue);
+        }
+        if (enableDragDrop && !column.isUnmapped) {
+            this.setupDropZone(zone);
         }
+        return zone;
+    }
 
-        column.taskIds.forEach((taskId) => {
-            const task = this._boardData.tasks[taskId];
-            if (task) {
-                const taskElement = this.createTaskCard(task, enableDragDrop);
-                tasksContainer.appendChild(taskElement);
-            }
-        });
+    private createResizeHandle(column: Column): HTMLElement {
+        const handle = document.createElement('div');
+        handle.className = 'kanban-column-resize-handle';
+        handle.title = 'Drag to resize, double-click to reset';
+        handle.setAttribute('role', 'separator');
+        handle.setAttribute('aria-orientation', 'vertical');
+        handle.setAttribute('aria-label', `Resize ${column.title}`);
+
+        handle.addEventListener('pointerdown', (e) => {
+            if (e.pointerType === 'mouse' && e.button !== 0) return;
+            e.preventDefault();
+            e.stopPropagation();
+
+            const startX = e.clientX;
+            const startWidth = (handle.parentElement as HTMLElement).getBoundingClientRect().width;
+            let width = startWidth;
+            handle.setPointerCapture(e.pointerId);
+
+            const onMove = (ev: PointerEvent) => {
+                width = Math.max(COLUMN_RESIZE_MIN_PX, Math.min(COLUMN_RESIZE_MAX_PX, startWidth + ev.clientX - startX));
+                this.getColumnShells(column.id).forEach(shell => this.applyColumnWidth(shell, width));
+            };
+            const onEnd = () => {
+                handle.removeEventListener('pointermove', onMove);
+                handle.removeEventListener('pointerup', onEnd);
+                handle.removeEventListener('pointercancel', onEnd);
+                if (Math.round(width) !== Math.round(startWidth)) {
+                    this._columnWidths[column.id] = Math.round(width);
+                    this.commitColumnLayout();
+                }
+            };
+            handle.addEventListener('pointermove', onMove);
+            handle.addEventListener('pointerup', onEnd);
+            handle.addEventListener('pointercancel', onEnd);
+        });
+
+        handle.ondblclick = (e) => {
+            e.stopPropagation();
+            delete this._columnWidths[column.id];
+            this.commitColumnLayout();
+        };
+        return handle;
+    }
+
+    /**
+     * Dragging a column header sideways reorders the columns (horizontal only, so touch can still
+     * scroll vertically). Alt+Left/Right does the same from the keyboard.
+     */
+    private setupColumnReorder(header: HTMLElement, column: Column): void {
+        header.tabIndex = 0;
+        header.setAttribute('aria-roledescription', 'Movable column');
+        header.setAttribute('aria-label', `${column.title}, ${this.getColumnCountText(column)} tasks${this._collapsedColumns.has(column.id) ? ', collapsed' : ''}`);
+        header.setAttribute('aria-keyshortcuts', 'Alt+ArrowLeft Alt+ArrowRight');
+        header.style.touchAction = 'pan-y';
+
+        header.onkeydown = (e) => {
+            if (!e.altKey || (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight')) return;
+            e.preventDefault();
+            e.stopPropagation();
+            const index = this._boardData.columnOrder.indexOf(column.id);
+            this.moveColumn(column.id, index + (e.key === 'ArrowLeft' ? -1 : 1));
+        };
+
+        header.addEventListener('pointerdown', (e) => {
+            if ((e.pointerType === 'mouse' && e.button !== 0) || (e.target as HTMLElement).closest('button, a, input, select, textarea')) return;
+
+            const startX = e.clientX;
+            let active = false;
+            let targetIndex = -1;
+            header.setPointerCapture(e.pointerId);
+
+            const onMove = (ev: PointerEvent) => {
+                if (!active) {
+                    if (Math.abs(ev.clientX - startX) < DRAG_THRESHOLD_PX) return;
+                    active = true;
+                    this.getColumnShells(column.id).forEach(shell => shell.classList.add('kanban-column-dragging'));
+                }
+                targetIndex = this.showColumnDropMarker(column.id, ev.clientX);
+            };
+            const onEnd = (ev: PointerEvent) => {
+                header.removeEventListener('pointermove', onMove);
+                header.removeEventListener('pointerup', onEnd);
+                header.removeEventListener('pointercancel', onEnd);
+                this.clearColumnDropMarker();
+                if (!active) return;
+
+                this.getColumnShells(column.id).forEach(shell => shell.classList.remove('kanban-column-dragging'));
+                if (ev.type === 'pointerup' && targetIndex > -1) {
+                    this.moveColumn(column.id, targetIndex);
+                }
+            };
+            header.addEventListener('pointermove', onMove);
+            header.addEventListener('pointerup', onEnd);
+            header.addEventListener('pointercancel', onEnd);
+        });
+    }
+
+    // Marks where the dragged column would land and returns that index in columnOrder without it
+    private showColumnDropMarker(columnId: string, clientX: number): number {
+        this.clearColumnDropMarker();
+        const shells = Array.from(this._container.querySelectorAll<HTMLElement>('.kanban-column-header'))
+            .map(header => header.parentElement as HTMLElement)
+            .filter(shell => shell.getAttribute('data-column-id') !== columnId);
+
+        const index = shells.findIndex(shell => {
+            const rect = shell.getBoundingClientRect();
+            return clientX < rect.left + rect.width / 2;
+        });
+        if (index > -1) {
+            shells[index].classList.add('kanban-column-drop-before');
+        } else if (shells.length > 0) {
+            shells[shells.length - 1].classList.add('kanban-column-drop-after');
+        }
+        return index > -1 ? index : shells.length;
+    }
+
+    private clearColumnDropMarker(): void {
+        this._container.querySelectorAll('.kanban-column-drop-before, .kanban-column-drop-after').forEach(shell => {
+            shell.classList.remove('kanban-column-drop-before', 'kanban-column-drop-after');
+        });
+    }
+
+    private getWipState(column: Column): WipBreachType | null {
+        const count = column.taskIds.length;
+        if (column.wipMax !== undefined && count > column.wipMax) return 'exceeded';
+        if (column.wipMin !== undefined && count < column.wipMin) return 'belowMinimum';
+        return null;
+    }
+
+    // Per-column wipHard wins over the global enforceWipLimits switch
+    private isWipHardLimit(column: Column): boolean {
+        return column.wipMax !== undefined && (column.wipHard ?? this._enforceWipLimits);
+    }
+
+    // Whether one more card may be dropped into the column without breaking a hard WIP limit
+    private canAcceptTask(column: Column, incoming = 1): boolean {
+        return !this.isWipHardLimit(column) || column.taskIds.length + incoming <= column.wipMax!;
+    }
+
+    /**
+     * Compares the WIP state of every column with the previous evaluation and emits
+     * one wipLimitEvent listing all columns that newly entered a breach.
+     */
+    private evaluateWipLimits(taskId?: string): void {
+        const breaches: Record<string, WipBreachType> = {};
+        const newBreaches: { column: Column; type: WipBreachType }[] = [];
+
+        for (const columnId of this._boardData.columnOrder) {
+            const column = this._boardData.columns[columnId];
+            if (!column || column.isUnmapped) continue;
+
+            const state = this.getWipState(column);
+            if (state) {
+                breaches[columnId] = state;
+                if (this._wipBreaches[columnId] !== state) newBreaches.push({ column, type: state });
+            }
+        }
+
+        this._wipBreaches = breaches;
+        if (newBreaches.length > 0) {
+            this._lastWipEvent = this.createWipEvent(newBreaches, taskId);
+            this._notifyOutputChanged();
+        }
+    }
+
+    private createWipEvent(breaches: { column: Column; type: WipColumnEvent['type'] }[], taskId?: string): WipLimitEvent {
+        const columns: WipColumnEvent[] = breaches.map(({ column, type }) => ({
+            type,
+            columnId: column.id,
+            columnTitle: column.title,
+            count: column.taskIds.length,
+            min: column.wipMin ?? null,
+            max: column.wipMax ?? null
+        }));
+        return {
+            ...columns[0],
+            breaches: columns,
+            taskId,
+            timestamp: new Date().toISOString(),
+            activeBreaches: Object.keys(this._wipBreaches).map(columnId => {
+                const breached = this._boardData.columns[columnId];
+                return {
+                    columnId,
+                    type: this._wipBreaches[columnId],
+                    count: breached.taskIds.length,
+                    min: breached.wipMin ?? null,
+                    max: breached.wipMax ?? null
+                };
+            })
+        };
+    }
+
+    // Short-lived message on top of a column, e.g. when a drop was refused
+    private showColumnFeedback(element: HTMLElement, message: string): void {
+        const anchor = (element.closest('.kanban-column') as HTMLElement) || element;
+        anchor.querySelectorAll('.kanban-drop-feedback').forEach(el => el.remove());
+
+        const feedback = document.createElement('div');
+        feedback.className = 'kanban-drop-feedback';
+        feedback.setAttribute('role', 'alert');
+        feedback.textContent = message;
+        anchor.appendChild(feedback);
+
+        anchor.classList.add('kanban-drop-refused');
+        setTimeout(() => {
+            feedback.remove();
+            anchor.classList.remove('kanban-drop-refused');
+        }, 2500);
+    }
+
+    private updateFilterState(): void {
+        const raw = this._context.parameters.filterState?.raw || '';
+        if (raw === this._filterStateInput) return;
+        this._filterStateInput = raw;
+        if (!raw.trim() || raw === JSON.stringify(this._filter)) return;
+
+        try {
+            const state = JSON.parse(raw) as Partial<FilterState>;
+            this.cancelSearchDebounce();
+            this._filter = {
+                search: typeof state.search === 'string' ? state.search : '',
+                assignees: Array.isArray(state.assignees) ? state.assignees.map(String) : [],
+                priorities: Array.isArray(state.priorities) ? state.priorities.map(String) : [],
+                due: (['overdue', 'thisWeek', 'noDate'] as string[]).includes(String(state.due)) ? state.due as DueDateFilter : ''
+            };
+        } catch (e) {
+            console.error("Invalid filterState JSON:", e);
+        }
+    }
+
+    private isFilterActive(): boolean {
+        const filter = this._filter;
+        return !!filter.search.trim() || filter.assignees.length > 0 || filter.priorities.length > 0 || !!filter.due;
+    }
+
+    private isTaskVisible(task: Task): boolean {
+        const filter = this._filter;
+        const search = filter.search.trim().toLowerCase();
+        if (search && !`${task.title || ''} ${task.description || ''}`.toLowerCase().includes(search)) return false;
+
+        if (filter.assignees.length > 0 && !filter.assignees.some(a => a.toLowerCase() === (task.assignedTo || '').toLowerCase())) return false;
+        if (filter.priorities.length > 0 && !filter.priorities.some(p => p.toLowerCase() === (task.priority || '').toLowerCase())) return false;
+
+        if (filter.due) {
+            const dueDate = this.getTaskDueDate(task);
+            const today = new Date();
+            today.setHours(0, 0, 0, 0);
+            switch (filter.due) {
+                case 'noDate':
+                    return !task.dueDate;
+                case 'overdue':
+                    return !!dueDate && dueDate < today;
+                case 'thisWeek': {
+                    // Today until the end of Sunday
+                    const weekEnd = new Date(today);
+                    weekEnd.setDate(today.getDate() + (7 - today.getDay()) % 7 + 1);
+                    return !!dueDate && dueDate >= today && dueDate < weekEnd;
+                }
+            }
+        }
+        return true;
+    }
+
+    // Due date at local midnight, from the raw value or by parsing the text (JSON and edited values)
+    private getTaskDueDate(task: Task): Date | null {
+        const key = task.dueDateValue || this.parseDueDateValue(task.dueDate);
+        if (!key) return null;
+        const [year, month, day] = key.split('-').map(Number);
+        return new Date(year, month - 1, day);
+    }
+
+    private parseDueDateValue(value: unknown): string | undefined {
+        if (value instanceof Date) {
+            return isNaN(value.getTime()) ? undefined : this.toDateKey(value, true);
+        }
+        if (typeof value !== 'string' || !value.trim()) return undefined;
+
+        // Plain dates are calendar dates, new Date() would read them as UTC midnight
+        const plain = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+        if (plain) return `${plain[1]}-${plain[2]}-${plain[3]}`;
+
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? undefined : this.toDateKey(date, true);
+    }
+
+    /**
+     * Formats a date as YYYY-MM-DD. Date-only values usually arrive as UTC midnight, reading them in
+     * local time would move them to the previous day west of UTC, so those use the UTC parts.
+     */
+    private toDateKey(date: Date, dateOnly: boolean): string {
+        const utcMidnight = date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0;
+        const useUtc = dateOnly && utcMidnight;
+        const year = useUtc ? date.getUTCFullYear() : date.getFullYear();
+        const month = (useUtc ? date.getUTCMonth() : date.getMonth()) + 1;
+        const day = useUtc ? date.getUTCDate() : date.getDate();
+        return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    }
+
+    private getDaysUntil(date: Date): number {
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        // Rounded because days around a DST change are not exactly 24 hours long
+        return Math.round((date.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+    }
+
+    private getDueState(task: Task): 'overdue' | 'dueSoon' | null {
+        const dueDate = this.getTaskDueDate(task);
+        if (!dueDate) return null;
+
+        const days = this.getDaysUntil(dueDate);
+        const dueSoonDays = Math.max(0, this._context.parameters.dueSoonDays?.raw ?? 3);
+        if (days < 0) return 'overdue';
+        return days <= dueSoonDays ? 'dueSoon' : null;
+    }
+
+    private setFilter(changes: Partial<FilterState>): void {
+        // A search still waiting for a pause in typing is applied together with the change
+        const pendingSearch = this._searchDebounce ? { search: this._searchDebounce.value } : {};
+        this.cancelSearchDebounce();
+        this._filter = { ...this._filter, ...pendingSearch, ...changes };
+        this.renderBoard();
+        this._notifyOutputChanged();
+    }
+
+    // Filtering on every keystroke would re-render the board and notify Power Apps per character
+    private setSearchDebounced(value: string): void {
+        this.cancelSearchDebounce();
+        this._searchDebounce = {
+            value,
+            timer: window.setTimeout(() => {
+                // Only take the focus back if the user is still in the search box
+                const input = this._container.querySelector<HTMLInputElement>('.kanban-toolbar-search');
+                this._searchCaret = input && document.activeElement === input ? input.selectionStart ?? input.value.length : null;
+                this.setFilter({ search: value });
+            }, SEARCH_DEBOUNCE_MS)
+        };
+    }
+
+    private cancelSearchDebounce(): void {
+        if (!this._searchDebounce) return;
+        window.clearTimeout(this._searchDebounce.timer);
+        this._searchDebounce = null;
+    }
+
+    private createFilterToolbar(): HTMLElement {
+        const toolbar = document.createElement('div');
+        toolbar.className = 'kanban-toolbar';
+        toolbar.setAttribute('role', 'search');
+
+        const search = document.createElement('input');
+        search.type = 'search';
+        search.className = 'kanban-toolbar-search';
+        search.placeholder = 'Search tasks';
+        search.setAttribute('aria-label', 'Search tasks by title or description');
+        search.value = this._searchDebounce?.value ?? this._filter.search;
+        search.oninput = () => {
+            // The toolbar is rebuilt on render, remember where the user was typing
+            this._searchCaret = search.selectionStart ?? search.value.length;
+            this.setSearchDebounced(search.value);
+        };
+        toolbar.appendChild(search);
+
+        if (this._searchCaret !== null) {
+            const caret = this._searchCaret;
+            this._searchCaret = null;
+            setTimeout(() => {
+                search.focus();
+                search.setSelectionRange(caret, caret);
+            }, 0);
+        }
+
+        const tasks = Object.values(this._boardData.tasks);
+        const distinct = (values: (string | undefined)[]) =>
+            values.filter((v, i, all): v is string => !!v && all.findIndex(o => (o || '').toLowerCase() === v.toLowerCase()) === i);
+
+        const toggle = (list: string[], value: string) => list.some(v => v.toLowerCase() === value.toLowerCase())
+            ? list.filter(v => v.toLowerCase() !== value.toLowerCase())
+            : [...list, value];
+
+        const assignees = distinct(tasks.map(t => t.assignedTo)).sort((a, b) => a.localeCompare(b));
+        if (assignees.length > 0) {
+            toolbar.appendChild(this.createChipGroup('Assignee', assignees.map(value => ({
+                label: value,
+                active: this._filter.assignees.some(a => a.toLowerCase() === value.toLowerCase()),
+                onClick: () => this.setFilter({ assignees: toggle(this._filter.assignees, value) })
+            }))));
+        }
+
+        const priorities = distinct(tasks.map(t => t.priority));
+        if (priorities.length > 0) {
+            toolbar.appendChild(this.createChipGroup('Priority', priorities.map(value => ({
+                label: value,
+                active: this._filter.priorities.some(p => p.toLowerCase() === value.toLowerCase()),
+                onClick: () => this.setFilter({ priorities: toggle(this._filter.priorities, value) })
+            }))));
+        }
+
+        const dueOptions: { value: DueDateFilter; label: string }[] = [
+            { value: 'overdue', label: 'Overdue' },
+            { value: 'thisWeek', label: 'This week' },
+            { value: 'noDate', label: 'No date' }
+        ];
+        toolbar.appendChild(this.createChipGroup('Due', dueOptions.map(option => ({
+            label: option.label,
+            active: this._filter.due === option.value,
+            onClick: () => this.setFilter({ due: this._filter.due === option.value ? '' : option.value })
+        }))));
+
+        if (this.isFilterActive()) {
+            const clear = document.createElement('button');
+            clear.className = 'kanban-toolbar-clear';
+            clear.textContent = 'Clear filters';
+            clear.onclick = () => this.setFilter({ search: '', assignees: [], priorities: [], due: '' });
+            toolbar.appendChild(clear);
+        }
+
+        toolbar.appendChild(this.createHistoryButtons());
+        return toolbar;
+    }
+
+    private createHistoryButtons(): HTMLElement {
+        const group = document.createElement('div');
+        group.className = 'kanban-toolbar-history';
+        group.setAttribute('role', 'group');
+        group.setAttribute('aria-label', 'History');
+
+        const buttons: { label: string; shortcut: string; icon: string; stack: HistoryEntry[]; run: () => void }[] = [
+            { label: 'Undo', shortcut: 'Ctrl+Z', icon: '↶', stack: this._undoStack, run: () => this.undo() },
+            { label: 'Redo', shortcut: 'Ctrl+Y', icon: '↷', stack: this._redoStack, run: () => this.redo() }
+        ];
+        buttons.forEach(config => {
+            const button = document.createElement('button');
+            button.className = 'kanban-history-btn';
+            button.textContent = config.icon;
+            button.disabled = config.stack.length === 0;
+            const last = config.stack[config.stack.length - 1];
+            button.title = last ? `${config.label} ${this.describeHistoryEntry(last)} (${config.shortcut})` : `${config.label} (${config.shortcut})`;
+            button.setAttribute('aria-label', button.title);
+            button.setAttribute('aria-keyshortcuts', config.shortcut.replace('Ctrl', 'Control'));
+            button.onclick = (e) => {
+                e.stopPropagation();
+                config.run();
+            };
+            group.appendChild(button);
+        });
+        return group;
+    }
+
+    private createChipGroup(label: string, chips: { label: string; active: boolean; onClick: () => void }[]): HTMLElement {
+        const group = document.createElement('div');
+        group.className = 'kanban-chip-group';
+        group.setAttribute('role', 'group');
+        group.setAttribute('aria-label', label);
+
+        const groupLabel = document.createElement('span');
+        groupLabel.className = 'kanban-chip-group-label';
+        groupLabel.textContent = label;
+        group.appendChild(groupLabel);
+
+        chips.forEach(chip => {
+            const button = document.createElement('button');
+            button.className = chip.active ? 'kanban-chip active' : 'kanban-chip';
+            button.textContent = chip.label;
+            button.setAttribute('aria-pressed', String(chip.active));
+            button.onclick = chip.onClick;
+            group.appendChild(button);
+        });
+        return group;
+    }
+
+    private getSwimlaneField(): string {
+        return this._context.parameters.swimlaneField?.raw?.trim() || '';
+    }
+
+    // Lane values: swimlaneOrder entries first (even when empty), then first-seen values, the empty value last
+    private getLaneValues(field: string): string[] {
+        const ordering = this.splitStatusList(this._context.parameters.swimlaneOrder?.raw?.trim() || '');
+        const values: string[] = [];
+        const seen = new Set<string>();
+        let hasEmpty = false;
+
+        const add = (value: string) => {
+            if (!value) {
+                hasEmpty = true;
+                return;
+            }
+            const key = value.toLowerCase();
+            if (!seen.has(key)) {
+                seen.add(key);
+                values.push(value);
+            }
+        };
+
+        ordering.forEach(add);
+        this._boardData.columnOrder.forEach(columnId => {
+            this._boardData.columns[columnId]?.taskIds.forEach(taskId => {
+                const task = this._boardData.tasks[taskId];
+                if (task) add(this.getTaskFieldValue(task, field));
+            });
+        });
+
+        if (hasEmpty) values.push('');
+        return values;
+    }
+
+    private renderSwimlanes(boardWrapper: HTMLElement, field: string, columnWidth: number, enableDragDrop: boolean): void {
+        const columns = this._boardData.columnOrder
+            .map(columnId => this._boardData.columns[columnId])
+            .filter(column => !!column);
+
+        // Column headers are rendered once, above all lanes
+        const headerRow = this.renderKeyed('laneHeaderRow', this._renderContextKey, () => this.createLaneRow('kanban-lane-row kanban-lane-header-row'));
+        this.patchChildren(headerRow, columns.map(column => this.renderKeyed(`columnHeader:${column.id}`, this.getColumnRenderKey(column, columnWidth), () => {
+            const headerCell = this.createColumnShell(column, columnWidth);
+            if (this.getWipState(column) === 'exceeded') {
+                headerCell.classList.add('kanban-column-wip-exceeded');
+            }
+            if (this._collapsedColumns.has(column.id)) {
+                headerCell.appendChild(this.createCollapsedColumnHeader(column));
+            } else {
+                headerCell.appendChild(this.createColumnHeader(column));
+                headerCell.appendChild(this.createResizeHandle(column));
+            }
+            return headerCell;
+        })));
+
+        const lanes = this.getLaneValues(field).map(laneValue => {
+            const laneKey = laneValue.toLowerCase();
+            const collapsed = this._collapsedLanes.has(laneKey);
+
+            const laneCounts = columns.map(column => column.taskIds.filter(taskId => {
+                const task = this._boardData.tasks[taskId];
+                return task && this.isTaskVisible(task) && this.getTaskFieldValue(task, field).toLowerCase() === laneKey;
+            }).length);
+            const total = laneCounts.reduce((sum, count) => sum + count, 0);
+
+            const lane = this.renderKeyed(`lane:${laneKey}`, JSON.stringify([this._renderContextKey, field, laneValue, total, collapsed]), () => {
+                const laneElement = document.createElement('div');
+                laneElement.className = collapsed ? 'kanban-swimlane collapsed' : 'kanban-swimlane';
+                laneElement.setAttribute('data-lane-value', laneValue);
+                laneElement.appendChild(this.createLaneHeader(field, laneValue, total, collapsed));
+                if (!collapsed) {
+                    laneElement.appendChild(this.createLaneRow('kanban-lane-row'));
+                }
+                return laneElement;
+            });
+
+            const row = lane.querySelector<HTMLElement>(':scope > .kanban-lane-row');
+            if (row) {
+                this.patchChildren(row, columns.map(column => {
+                    const columnCollapsed = this._collapsedColumns.has(column.id);
+                    const cell = this.renderKeyed(`cell:${column.id}\u0000${laneKey}`, this.getColumnRenderKey(column, columnWidth, laneValue), () => {
+                        const cellElement = this.createColumnShell(column, columnWidth);
+                        cellElement.classList.add('kanban-lane-cell');
+                        cellElement.appendChild(columnCollapsed
+                            ? this.createCollapsedDropZone(column, enableDragDrop, laneValue)
+                            : this.createTasksContainer(column, enableDragDrop, laneValue));
+                        return cellElement;
+                    });
+                    const tasksContainer = cell.querySelector<HTMLElement>('.kanban-tasks-container:not(.kanban-collapsed-drop)');
+                    if (tasksContainer) {
+                        this.renderTasks(tasksContainer, column, enableDragDrop, laneValue);
+                    }
+                    return cell;
+                }));
+            }
+            return lane;
+        });
+
+        this.patchChildren(boardWrapper, [headerRow, ...lanes]);
+    }
+
+    private createLaneRow(className: string): HTMLElement {
+        const row = document.createElement('div');
+        row.className = className;
+        row.style.display = 'flex';
+        row.style.gap = `${this._layoutConfig.columnSpacing}px`;
+        return row;
+    }
+
+    private createLaneHeader(field: string, laneValue: string, count: number, collapsed: boolean): HTMLElement {
+        const header = document.createElement('div');
+        header.className = 'kanban-swimlane-header';
+        header.setAttribute('role', 'button');
+        header.setAttribute('aria-expanded', String(!collapsed));
+        header.style.display = 'flex';
+        header.style.alignItems = 'center';
+        header.style.gap = '8px';
+        header.style.cursor = 'pointer';
+        header.style.color = this._styleConfig.textColor;
+        header.style.fontFamily = this._styleConfig.fontFamily;
+
+        const caret = document.createElement('span');
+        caret.className = 'kanban-swimlane-caret';
+        caret.textContent = collapsed ? '▸' : '▾';
+
+        const title = document.createElement('span');
+        title.className = 'kanban-swimlane-title';
+        title.textContent = laneValue || (['assignedto', 'assignee'].includes(field.toLowerCase()) ? 'Unassigned' : `No ${field}`);
+
+        const taskCount = document.createElement('span');
+        taskCount.className = 'kanban-swimlane-count';
+        taskCount.textContent = count.toString();
+        taskCount.style.backgroundColor = this.hexToRgba(this._styleConfig.primaryColor, 0.1);
+        taskCount.style.color = this._styleConfig.primaryColor;
+
+        header.appendChild(caret);
+        header.appendChild(title);
+        header.appendChild(taskCount);
+
+        header.onclick = () => {
+            const laneKey = laneValue.toLowerCase();
+            if (this._collapsedLanes.has(laneKey)) {
+                this._collapsedLanes.delete(laneKey);
+            } else {
+                this._collapsedLanes.add(laneKey);
+            }
+            this.renderBoard();
+        };
+
+        return header;
+    }
+
+    private getTaskFieldValue(task: Task, field: string): string {
+        switch (field.toLowerCase()) {
+            case 'status': return task.status || '';
+            case 'title': return task.title || '';
+            case 'priority': return task.priority || '';
+            case 'assignedto':
+            case 'assignee': return task.assignedTo || '';
+            case 'duedate': return task.dueDate || '';
+            case 'description': return task.description || '';
+            case 'sortorder': return task.rank !== undefined ? String(task.rank) : '';
+        }
+        const fields = task.fields || {};
+        const key = Object.keys(fields).find(k => k.toLowerCase() === field.toLowerCase());
+        return key ? fields[key] || '' : '';
+    }
+
+    private setTaskFieldValue(task: Task, field: string, value: string): void {
+        switch (field.toLowerCase()) {
+            case 'status': task.status = value; return;
+            case 'title': task.title = value; return;
+            case 'priority': task.priority = value; return;
+            case 'assignedto':
+            case 'assignee': task.assignedTo = value; return;
+            case 'duedate': task.dueDate = value; task.dueDateValue = undefined; return;
+            case 'description': task.description = value; return;
+            case 'sortorder': task.rank = value === '' ? undefined : Number(value); return;
+        }
+        task.fields = task.fields || {};
+        const key = Object.keys(task.fields).find(k => k.toLowerCase() === field.toLowerCase()) || field;
+        task.fields[key] = value;
+    }
+
+    private createColumnHeader(column: Column): HTMLElement {
+        const header = document.createElement('div');
+        header.className = 'kanban-column-header';
+        header.style.padding = '12px';
+        header.style.borderBottom = `1px solid ${this.hexToRgba(this._styleConfig.primaryColor, 0.2)}`;
+        header.style.display = 'flex';
+        header.style.justifyContent = 'space-between';
+        header.style.alignItems = 'center';
+        header.style.backgroundColor = this._styleConfig.cardBackgroundColor;
+        header.style.borderRadius = '12px 12px 0 0';
+
+        const titleContainer = document.createElement('div');
+        titleContainer.style.display = 'flex';
+        titleContainer.style.alignItems = 'center';
+        titleContainer.style.gap = '8px';
+
+        const title = document.createElement('h3');
+        title.textContent = column.title;
+        title.style.margin = '0';
+        title.style.fontSize = `${this._styleConfig.fontSize}px`;
+        title.style.fontWeight = '600';
+        title.style.color = this._styleConfig.textColor;
+        title.style.fontFamily = this._styleConfig.fontFamily;
+        title.style.textAlign = this._alignmentConfig.text.toLowerCase() as 'left' | 'center' | 'right' | 'justify';
+
+        const taskCount = document.createElement('span');
+        taskCount.className = 'kanban-column-count';
+        taskCount.textContent = this.getColumnCountText(column);
+        taskCount.style.backgroundColor = this.hexToRgba(this._styleConfig.primaryColor, 0.1);
+        taskCount.style.color = this._styleConfig.primaryColor;
+
+        const wipState = this.getWipState(column);
+        if (wipState) {
+            // Colors come from the wip-* classes in applyCustomStyles
+            taskCount.classList.add(wipState === 'exceeded' ? 'wip-exceeded' : 'wip-below-min');
+            taskCount.title = wipState === 'exceeded'
+                ? `Over the WIP limit of ${column.wipMax}`
+                : `Below the WIP minimum of ${column.wipMin}`;
+        } else if (column.wipMax !== undefined && column.taskIds.length === column.wipMax) {
+            taskCount.classList.add('wip-at-limit');
+            taskCount.title = `At the WIP limit of ${column.wipMax}`;
+        }
+        taskCount.style.fontSize = `${Math.max(10, this._styleConfig.fontSize - 2)}px`;
+        taskCount.style.padding = '2px 8px';
+        taskCount.style.borderRadius = '12px';
+        taskCount.style.fontWeight = '500';
+        taskCount.style.fontFamily = this._styleConfig.fontFamily;
+
+        titleContainer.appendChild(title);
+        titleContainer.appendChild(taskCount);
+        header.appendChild(titleContainer);
+
+        header.appendChild(this.createSortControl(column));
+
+        if (this._context.parameters.enableQuickCreate?.raw !== false && !column.isUnmapped) {
+            const addBtn = document.createElement('button');
+            addBtn.className = 'kanban-add-task-btn';
+            addBtn.textContent = '+';
+            // A column at its hard WIP limit takes no new cards, same as for drops
+            addBtn.disabled = !this.canAcceptTask(column);
+            addBtn.title = addBtn.disabled ? `${column.title} is at its WIP limit of ${column.wipMax}` : `Add a task to ${column.title}`;
+            addBtn.setAttribute('aria-label', addBtn.title);
+            addBtn.onclick = (e) => {
+                e.stopPropagation();
+                this.openQuickCreate(column.id);
+            };
+            header.appendChild(addBtn);
+        }
+
+        const collapseBtn = document.createElement('button');
+        collapseBtn.className = 'kanban-column-collapse-btn';
+        collapseBtn.textContent = '‹';
+        collapseBtn.title = `Collapse ${column.title}`;
+        collapseBtn.setAttribute('aria-label', collapseBtn.title);
+        collapseBtn.setAttribute('aria-expanded', 'true');
+        collapseBtn.onclick = (e) => {
+            e.stopPropagation();
+            this.toggleColumnCollapsed(column.id);
+        };
+        header.appendChild(collapseBtn);
+
+        this.setupColumnReorder(header, column);
+        return header;
+    }
+
+    // "visible/total" while filtering, "count/limit" with a WIP limit
+    private getColumnCountText(column: Column): string {
+        if (this.isFilterActive()) {
+            const visibleCount = column.taskIds.filter(taskId => {
+                const task = this._boardData.tasks[taskId];
+                return task && this.isTaskVisible(task);
+            }).length;
+            return `${visibleCount}/${column.taskIds.length}`;
+        }
+        return column.wipMax !== undefined
+            ? `${column.taskIds.length}/${column.wipMax}`
+            : column.taskIds.length.toString();
+    }
+
+    // Parses "field:dir,field2:dir"; the direction defaults to ascending
+    private parseSortSpec(spec: string): SortKey[] {
+        return spec.split(',')
+            .map(part => part.trim())
+            .filter(part => !!part)
+            .map(part => {
+                const [field, direction] = part.split(':').map(p => p.trim());
+                return { field, direction: direction?.toLowerCase() === 'desc' ? 'desc' : 'asc' } as SortKey;
+            })
+            .filter(key => !!key.field);
+    }
+
+    private getColumnSortSpec(column: Column): string {
+        const override = this._columnSortOverrides[column.id];
+        if (override !== undefined) return override;
+        return column.sortBy ?? this._context.parameters.sortBy?.raw ?? '';
+    }
+
+    private isColumnSorted(column: Column): boolean {
+        return this.parseSortSpec(this.getColumnSortSpec(column)).length > 0;
+    }
+
+    // Highest priority first, as written in priorityScale, e.g. "Urgent|High|Medium|Low"
+    private getPriorityLevels(): string[] {
+        const scale = this.splitStatusList(this._context.parameters.priorityScale?.raw || '');
+        return scale.length > 0 ? scale : ['Urgent', 'High', 'Medium', 'Normal', 'Low'];
+    }
+
+    private getPriorityScale(): string[] {
+        return this.getPriorityLevels().map(p => p.toLowerCase());
+    }
+
+    private getSortValue(task: Task, field: string, priorityScale: string[]): number | string | null {
+        switch (field.toLowerCase()) {
+            case 'priority': {
+                if (!task.priority) return null;
+                const index = priorityScale.indexOf(task.priority.toLowerCase());
+                // Unknown priorities rank below the scale
+                return index > -1 ? priorityScale.length - index : 0;
+            }
+            case 'duedate': {
+                const date = this.getTaskDueDate(task);
+                return date ? date.getTime() : null;
+            }
+        }
+        const value = this.getTaskFieldValue(task, field).trim();
+        if (!value) return null;
+        if (!isNaN(Number(value))) return Number(value);
+        const time = /[-/.]/.test(value) ? Date.parse(value) : NaN;
+        return isNaN(time) ? value.toLowerCase() : time;
+    }
+
+    // Sorts in place; empty values go last in both directions, ties keep the rank order
+    private sortTaskIds(column: Column, taskIds: string[]): void {
+        const keys = this.parseSortSpec(this.getColumnSortSpec(column));
+        if (keys.length === 0) return;
+
+        const priorityScale = this.getPriorityScale();
+        const position = new Map(taskIds.map((id, index) => [id, index]));
+        taskIds.sort((a, b) => {
+            const taskA = this._boardData.tasks[a];
+            const taskB = this._boardData.tasks[b];
+            for (const key of keys) {
+                const valueA = this.getSortValue(taskA, key.field, priorityScale);
+                const valueB = this.getSortValue(taskB, key.field, priorityScale);
+                if (valueA === valueB) continue;
+                if (valueA === null) return 1;
+                if (valueB === null) return -1;
+                const result = typeof valueA === 'number' && typeof valueB === 'number'
+                    ? valueA - valueB
+                    : String(valueA).localeCompare(String(valueB), undefined, { numeric: true });
+                if (result !== 0) return key.direction === 'desc' ? -result : result;
+            }
+            return position.get(a)! - position.get(b)!;
+        });
+    }
+
+    private createSortControl(column: Column): HTMLElement {
+        const wrapper = document.createElement('div');
+        wrapper.className = 'kanban-sort-control';
+
+        const spec = this.getColumnSortSpec(column);
+        const button = document.createElement('button');
+        button.className = spec ? 'kanban-sort-btn active' : 'kanban-sort-btn';
+        button.textContent = '⇅';
+        button.title = spec ? `Sorted by ${spec}` : 'Manual order';
+        button.setAttribute('aria-label', `Sort ${column.title}`);
+        button.setAttribute('aria-expanded', String(this._sortMenuColumnId === column.id));
+        button.onclick = (e) => {
+            e.stopPropagation();
+            this._sortMenuColumnId = this._sortMenuColumnId === column.id ? null : column.id;
+            this.renderBoard();
+        };
+        wrapper.appendChild(button);
+
+        if (this._sortMenuColumnId === column.id) {
+            const configured = column.sortBy ?? this._context.parameters.sortBy?.raw ?? '';
+            const options: { label: string; spec?: string }[] = [
+                ...(configured ? [{ label: `Configured (${configured})` }] : []),
+                { label: 'Manual order', spec: '' },
+                { label: 'Priority, then due date', spec: 'priority:desc,duedate:asc' },
+                { label: 'Due date, then priority', spec: 'duedate:asc,priority:desc' },
+                { label: 'Title (A-Z)', spec: 'title:asc' }
+            ];
+
+            const menu = document.createElement('div');
+            menu.className = 'kanban-sort-menu';
+            menu.setAttribute('role', 'menu');
+            options.forEach(option => {
+                const item = document.createElement('button');
+                item.setAttribute('role', 'menuitemradio');
+                const selected = option.spec === undefined
+                    ? this._columnSortOverrides[column.id] === undefined
+                    : this._columnSortOverrides[column.id] === option.spec
+                        || (this._columnSortOverrides[column.id] === undefined && !configured && option.spec === '');
+                item.setAttribute('aria-checked', String(selected));
+                item.className = selected ? 'kanban-sort-option active' : 'kanban-sort-option';
+                item.textContent = option.label;
+                item.onclick = (e) => {
+                    e.stopPropagation();
+                    if (option.spec === undefined) {
+                        delete this._columnSortOverrides[column.id];
+                    } else {
+                        this._columnSortOverrides[column.id] = option.spec;
+                    }
+                    this._sortMenuColumnId = null;
+                    this.renderBoard();
+                    // The header sort is part of the saved column layout
+                    this.publishColumnConfiguration();
+                };
+                menu.appendChild(item);
+            });
+            wrapper.appendChild(menu);
+        }
+        return wrapper;
+    }
+
+    private openQuickCreate(columnId: string): void {
+        // With swimlanes the editor opens in the first expanded lane
+        const laneField = this.getSwimlaneField();
+        const laneValue = laneField
+            ? this.getLaneValues(laneField).find(value => !this._collapsedLanes.has(value.toLowerCase())) ?? ''
+            : undefined;
+        this._quickCreate = { columnId, laneValue };
+        this.renderBoard();
+    }
+
+    private createQuickCreateEditor(column: Column, laneValue?: string): HTMLElement {
+        const editor = document.createElement('div');
+        editor.className = 'kanban-quick-create';
+        editor.style.marginBottom = `${this._layoutConfig.cardSpacing}px`;
+
+        const titleInput = document.createElement('input');
+        titleInput.className = 'task-detail-input';
+        titleInput.placeholder = 'Task title';
+        titleInput.setAttribute('aria-label', 'Task title');
+
+        const prioritySelect = document.createElement('select');
+        prioritySelect.className = 'task-detail-input';
+        prioritySelect.setAttribute('aria-label', 'Priority');
+        ['', ...this.getPriorityLevels()].forEach(value => {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = value || 'No priority';
+            prioritySelect.appendChild(option);
+        });
+
+        const assigneeInput = document.createElement('input');
+        assigneeInput.className = 'task-detail-input';
+        assigneeInput.placeholder = 'Assigned to';
+        assigneeInput.setAttribute('aria-label', 'Assigned to');
+
+        const dueDateInput = document.createElement('input');
+        dueDateInput.type = 'date';
+        dueDateInput.className = 'task-detail-input';
+        dueDateInput.setAttribute('aria-label', 'Due date');
+
+        const close = () => {
+            this._quickCreate = null;
+            this.renderBoard();
+        };
+        const submit = () => {
+            const title = titleInput.value.trim();
+            if (!title) {
+                titleInput.focus();
+                return;
+            }
+            this._quickCreate = null;
+            const tempId = this.createTask(column.id, laneValue, {
+                title,
+                priority: prioritySelect.value,
+                assignedTo: assigneeInput.value.trim(),
+                dueDate: dueDateInput.value
+            });
+            if (!tempId) {
+                // Refused by a hard WIP limit: keep the editor and what was typed
+                this._quickCreate = { columnId: column.id, laneValue };
+            }
+        };
+
+        editor.onkeydown = (e) => {
+            if (e.key === 'Escape') close();
+            if (e.key === 'Enter' && e.target === titleInput) submit();
+        };
+
+        const details = document.createElement('div');
+        details.className = 'kanban-quick-create-details';
+        details.appendChild(prioritySelect);
+        details.appendChild(dueDateInput);
+
+        const actions = document.createElement('div');
+        actions.className = 'share-actions';
+        const cancelBtn = document.createElement('button');
+        cancelBtn.className = 'action-btn secondary';
+        cancelBtn.textContent = 'Cancel';
+        cancelBtn.onclick = close;
+        const addBtn = document.createElement('button');
+        addBtn.className = 'action-btn primary';
+        addBtn.textContent = 'Add';
+        addBtn.onclick = submit;
+        actions.appendChild(cancelBtn);
+        actions.appendChild(addBtn);
+
+        editor.appendChild(titleInput);
+        editor.appendChild(details);
+        editor.appendChild(assigneeInput);
+        editor.appendChild(actions);
+
+        setTimeout(() => titleInput.focus(), 0);
+        return editor;
+    }
+
+    // Adds a temporary card and emits taskCreated; returns its temporary id, null when refused
+    private createTask(columnId: string, laneValue: string | undefined, values: { title: string; priority: string; assignedTo: string; dueDate: string }): string | null {
+        const column = this._boardData.columns[columnId];
+        if (!column) return null;
+
+        if (!this.canAcceptTask(column)) {
+            const container = this._container.querySelector<HTMLElement>(`.kanban-tasks-container[data-column-id="${columnId}"]`);
+            if (container) {
+                this.showColumnFeedback(container, `WIP limit reached (${column.taskIds.length}/${column.wipMax}) - "${column.title}" cannot take more cards`);
+            }
+            this._lastWipEvent = this.createWipEvent([{ column, type: 'blocked' }]);
+            this._notifyOutputChanged();
+            return null;
+        }
+
+        const laneField = laneValue !== undefined ? this.getSwimlaneField() : '';
+        const status = column.statusValues[0] || column.title;
+        const tempId = `temp_${Date.now()}_${++this._moveCounter}`;
+
+        const task: Task = {
+            id: tempId,
+            title: values.title,
+            status,
+            priority: values.priority || undefined,
+            assignedTo: values.assignedTo || undefined,
+            dueDate: values.dueDate || undefined,
+            isOptimistic: true,
+            fields: {}
+        };
+        if (laneField) {
+            this.setTaskFieldValue(task, laneField, laneValue!);
+        }
+
+        this._boardData.tasks[tempId] = task;
+        column.taskIds.unshift(tempId);
+        this.markTasksChanged([tempId]);
+        this.markColumnsChanged([columnId]);
+
+        // Only the dataset can bring the real record back, other sources keep the local card
+        if (this._dataSource === 'dataset') {
+            const pending: PendingCreate = { task, columnId };
+            const timeoutSeconds = this._context.parameters.moveTimeout?.raw ?? 30;
+            if (timeoutSeconds > 0) {
+                pending.timer = window.setTimeout(() => this.failPendingCreate(tempId), timeoutSeconds * 1000);
+            }
+            this._pendingCreates[tempId] = pending;
+        }
+
+        this._lastCreatedTask = {
+            tempId,
+            columnId,
+            status,
+            title: task.title,
+            priority: values.priority,
+            assignedTo: values.assignedTo,
+            dueDate: values.dueDate,
+            ...(laneField ? { laneField, laneValue } : {}),
+            timestamp: new Date().toISOString()
+        };
+        this.emitBoardEvent('create', this._lastCreatedTask);
+        this.recordHistory({ type: 'create', tempId, columnId, laneValue, values });
+
+        this.renderBoard();
+        this.evaluateWipLimits(tempId);
+        this._notifyOutputChanged();
+        return tempId;
+    }
+
+    /**
+     * Puts temporary cards back after a dataset reload. A card is dropped once the record the app
+     * reported for its tempId through createAcknowledgement is in the dataset.
+     */
+    private applyPendingCreates(): void {
+        Object.keys(this._pendingCreates).forEach(tempId => {
+            const pending = this._pendingCreates[tempId];
+            const recordId = pending.recordId;
+            const created = recordId
+                ? Object.values(this._boardData.tasks).find(task => task.recordId === recordId || task.id === recordId)
+                : undefined;
+
+            if (created) {
+                if (pending.timer) window.clearTimeout(pending.timer);
+                delete this._pendingCreates[tempId];
+                this._createdTaskIds[tempId] = created.id;
+                return;
+            }
+
+            const columnId = this._boardData.columns[pending.columnId]
+                ? pending.columnId
+                : this.getColumnIdByStatus(pending.task.status);
+            if (!columnId) return;
+
+            this._boardData.tasks[tempId] = pending.task;
+            this._boardData.columns[columnId].taskIds.unshift(tempId);
+        });
+    }
+
+    private failPendingCreate(tempId: string, message?: string): void {
+        const pending = this._pendingCreates[tempId];
+        if (!pending) return;
+        this.removePendingCreate(tempId);
+        console.warn("Created task did not come back from the data source:", pending.task.title, message || '');
+
+        this.renderBoard();
+        const columnElement = this._container.querySelector(`.kanban-tasks-container[data-column-id="${pending.columnId}"]`) as HTMLElement | null;
+        if (columnElement) {
+            this.showColumnFeedback(columnElement, message ? `"${pending.task.title}" was not saved: ${message}` : `"${pending.task.title}" was not saved`);
+        }
+    }
+
+    /**
+     * Reads the createAcknowledgement input: JSON {"tempId": "...", "recordId": "..."} once the app
+     * saved a quick-created card, or {"tempId": "...", "status": "rejected", "message": "..."}.
+     */
+    private processCreateAcknowledgement(): void {
+        const raw = this._context.parameters.createAcknowledgement?.raw?.trim() || '';
+        if (!raw || raw === this._lastCreateAcknowledgement) return;
+        this._lastCreateAcknowledgement = raw;
+
+        let ack: { tempId?: string; recordId?: string; status?: string; message?: string };
+        try {
+            ack = JSON.parse(raw) as typeof ack;
+        } catch (e) {
+            console.error("Invalid createAcknowledgement JSON:", e);
+            return;
+        }
+
+        // Acknowledgements of unknown or already finished creates are ignored
+        const tempId = String(ack.tempId ?? '');
+        const pending = this._pendingCreates[tempId];
+        if (!pending) return;
+
+        if (String(ack.status ?? '').toLowerCase() === 'rejected') {
+            this.failPendingCreate(tempId, ack.message ? String(ack.message) : 'The record was rejected');
+        } else if (ack.recordId) {
+            // The card is swapped for the record when the dataset returns it
+            pending.recordId = String(ack.recordId);
+        }
+    }
+
+    // Drops a temporary card and stops waiting for its record
+    private removePendingCreate(tempId: string): void {
+        const pending = this._pendingCreates[tempId];
+        if (pending?.timer) window.clearTimeout(pending.timer);
+        delete this._pendingCreates[tempId];
+        this.removeTaskFromBoard(tempId);
+    }
+
+    private removeTaskFromBoard(taskId: string): void {
+        delete this._boardData.tasks[taskId];
+        this.markTasksChanged([taskId]);
+        this._boardData.columnOrder.forEach(columnId => {
+            const taskIds = this._boardData.columns[columnId].taskIds;
+            const index = taskIds.indexOf(taskId);
+            if (index > -1) {
+                taskIds.splice(index, 1);
+                this.markColumnsChanged([columnId]);
+            }
+        });
+    }
+
+    // laneValue is set when rendering a swimlane cell: only that lane's tasks are shown
+    private createTasksContainer(column: Column, enableDragDrop: boolean, laneValue?: string): HTMLElement {
+        const tasksContainer = document.createElement('div');
+        tasksContainer.className = 'kanban-tasks-container';
+        tasksContainer.style.padding = `${this._layoutConfig.cardSpacing}px`;
+        tasksContainer.style.minHeight = laneValue !== undefined ? '80px' : '300px';
+        tasksContainer.style.overflowY = 'auto';
+        tasksContainer.setAttribute('data-column-id', column.id);
+        if (laneValue !== undefined) {
+            tasksContainer.setAttribute('data-lane-value', laneValue);
+        }
+
+        this.applyCardsVerticalAlignment(tasksContainer);
+
+        // Cards can leave the Unmapped column but nothing can be dropped into it
+        if (enableDragDrop && !column.isUnmapped) {
+            this.setupDropZone(tasksContainer);
+        }
 
         return tasksContainer;
     }
 
+    // Fills a tasks container with the column's visible cards, reusing unchanged card elements
+    private renderTasks(tasksContainer: HTMLElement, column: Column, enableDragDrop: boolean, laneValue?: string): void {
+        const laneField = laneValue !== undefined ? this.getSwimlaneField() : '';
+        const visibleTaskIds = column.taskIds.filter(taskId => {
+            const task = this._boardData.tasks[taskId];
+            return task && this.isTaskVisible(task)
+                && !(laneField && this.getTaskFieldValue(task, laneField).toLowerCase() !== laneValue!.toLowerCase());
+        });
+        const before: HTMLElement[] = [];
+        const after: HTMLElement[] = [];
+
+        // Kept across renders while open, so typed values survive a data refresh
+        const quickCreate = this._quickCreate;
+        if (quickCreate && quickCreate.columnId === column.id && quickCreate.laneValue === laneValue) {
+            before.push(this.renderKeyed(`quickCreate:${column.id}\u0000${laneValue ?? ''}`, this._renderContextKey,
+                () => this.createQuickCreateEditor(column, laneValue)));
+        }
+
+        this.sortTaskIds(column, visibleTaskIds);
+
+        const limitKey = laneValue !== undefined ? `${column.id}\u0000${laneValue.toLowerCase()}` : column.id;
+        const shownCount = Math.min(visibleTaskIds.length, this.getColumnCardLimit(limitKey));
+
+        const shownTaskIds = visibleTaskIds.slice(0, shownCount);
+
+        const hiddenCount = visibleTaskIds.length - shownCount;
+        if (hiddenCount > 0) {
+            const step = this._context.parameters.columnCardLimit?.raw || 0;
+            const button = document.createElement('button');
+            button.className = 'kanban-load-more';
+            button.textContent = `Show ${Math.min(step, hiddenCount)} more (${hiddenCount} hidden)`;
+            button.onclick = (e) => {
+                e.stopPropagation();
+                this._columnVisibleCounts[limitKey] = shownCount + step;
+                this.renderBoard();
+            };
+            after.push(button);
+        } else if (this.hasMoreDatasetRecords()) {
+            // Everything loaded for this column is shown, the rest is still on the server
+            after.push(this.createLoadPageButton('Load more tasks'));
+        }
+
+        const threshold = this._context.parameters.virtualizeThreshold?.raw ?? VIRTUALIZE_DEFAULT_THRESHOLD;
+        const virtualize = threshold > 0 && shownTaskIds.length > threshold;
+        // The window itself keeps the view in place; browser scroll anchoring would fight it
+        tasksContainer.style.overflowAnchor = virtualize ? 'none' : '';
+        if (virtualize) {
+            const list: VirtualList = { container: tasksContainer, column, taskIds: shownTaskIds, enableDragDrop, before, after };
+            this._virtualLists[this.getScrollKey(tasksContainer)] = list;
+            this.renderVirtualWindow(list);
+            return;
+        }
+
+        this.patchChildren(tasksContainer, [
+            ...before,
+            ...shownTaskIds.map(taskId => this.renderTaskCard(this._boardData.tasks[taskId], column, enableDragDrop)),
+            ...after
+        ]);
+    }
+
+    /**
+     * Renders the cards of a windowed list that are in view, plus VIRTUAL_OVERSCAN_CARDS on each side.
+     * Spacers stand in for the rest with their measured (or estimated) heights, so the scrollbar matches
+     * the whole list. Cards being dragged, moved with the keyboard or holding the focus stay rendered,
+     * and anchorTaskId forces a window around that card.
+     */
+    private renderVirtualWindow(list: VirtualList, anchorTaskId?: string): void {
+        const { container, taskIds } = list;
+        const measured = taskIds.map(taskId => this._cardHeights[taskId]).filter(height => !!height);
+        const estimate = measured.length > 0
+            ? measured.reduce((sum, height) => sum + height, 0) / measured.length
+            : VIRTUAL_ESTIMATED_CARD_PX;
+        const heights = taskIds.map(taskId => this._cardHeights[taskId] || estimate);
+
+        const [viewTop, viewBottom] = this.getVisibleRange(container);
+        let first = -1;
+        let last = -1;
+        let offset = 0;
+        heights.forEach((height, index) => {
+            if (first < 0 && offset + height > viewTop) first = index;
+            if (offset < viewBottom) last = index;
+            offset += height;
+        });
+        if (first < 0) first = taskIds.length - 1;
+        last = Math.max(first, last);
+
+        let start = Math.max(0, first - VIRTUAL_OVERSCAN_CARDS);
+        let end = Math.min(taskIds.length, last + 1 + VIRTUAL_OVERSCAN_CARDS);
+        const anchorIndex = anchorTaskId ? taskIds.indexOf(anchorTaskId) : -1;
+        if (anchorIndex > -1 && (anchorIndex < start || anchorIndex >= end)) {
+            start = Math.max(0, anchorIndex - VIRTUAL_OVERSCAN_CARDS);
+            end = Math.min(taskIds.length, anchorIndex + 1 + VIRTUAL_OVERSCAN_CARDS);
+        }
+
+        // Keep a drop indicator in this list in front of its card (or at the end)
+        const indicator = this._dropIndicator?.parentElement === container ? this._dropIndicator : null;
+        const indicatorBeforeId = indicator?.nextElementSibling?.getAttribute('data-task-id') ?? null;
+
+        const pinned = this.getPinnedTaskIds();
+        const spacers = Array.from(container.querySelectorAll<HTMLElement>(':scope > .kanban-virtual-spacer'));
+        const children: HTMLElement[] = [...list.before];
+        const cards: HTMLElement[] = [];
+        let gap = 0;
+        const flushGap = () => {
+            if (gap <= 0) return;
+            const spacer = spacers.shift() || document.createElement('div');
+            spacer.className = 'kanban-virtual-spacer';
+            spacer.setAttribute('aria-hidden', 'true');
+            spacer.style.height = `${gap}px`;
+            spacer.style.flexShrink = '0';
+            children.push(spacer);
+            gap = 0;
+        };
+
+        taskIds.forEach((taskId, index) => {
+            const task = this._boardData.tasks[taskId];
+            if (!task || ((index < start || index >= end) && !pinned.has(taskId))) {
+                gap += heights[index];
+                return;
+            }
+            flushGap();
+            if (indicator && taskId === indicatorBeforeId) children.push(indicator);
+            const card = this.renderTaskCard(task, list.column, list.enableDragDrop);
+            children.push(card);
+            cards.push(card);
+        });
+        flushGap();
+        if (indicator && indicatorBeforeId === null) children.push(indicator);
+        children.push(...list.after);
+
+        this.patchChildren(container, children);
+
+        // Cards of a detached container have no size yet; the update after the render measures them
+        if (container.isConnected) {
+            cards.forEach(card => {
+                const height = card.offsetHeight;
+                if (height > 0) this._cardHeights[card.getAttribute('data-task-id')!] = height + this._layoutConfig.cardSpacing;
+            });
+        }
+    }
+
+    // Part of the container's content that is on screen: inside the container, the board and the window
+    private getVisibleRange(container: HTMLElement): [number, number] {
+        const rect = container.getBoundingClientRect();
+        const board = this._container.getBoundingClientRect();
+        const top = Math.max(rect.top, board.top, 0);
+        const bottom = Math.max(top, Math.min(rect.bottom, board.bottom, window.innerHeight));
+        return [top - rect.top + container.scrollTop, bottom - rect.top + container.scrollTop];
+    }
+
+    // Cards a window update must not remove: removing a drag source or the focused card breaks the interaction
+    private getPinnedTaskIds(): Set<string> {
+        const pinned = new Set<string>();
+        [this._draggedTaskId, this._pointerDrag?.taskId, this._keyboardMove?.taskId].forEach(taskId => {
+            if (taskId) pinned.add(taskId);
+        });
+        const active = document.activeElement;
+        if (active instanceof HTMLElement && this._container.contains(active)) {
+            const focusedId = active.closest('.kanban-task-card')?.getAttribute('data-task-id');
+            if (focusedId) pinned.add(focusedId);
+        }
+        return pinned;
+    }
+
+    private onBoardScroll = (): void => {
+        this.scheduleVirtualUpdate();
+    };
+
+    // Re-windows the lists once per frame after scrolling or a render
+    private scheduleVirtualUpdate(): void {
+        if (this._virtualFrame || Object.keys(this._virtualLists).length === 0) return;
+        this._virtualFrame = window.requestAnimationFrame(() => {
+            this._virtualFrame = 0;
+            Object.values(this._virtualLists).forEach(list => {
+                if (list.container.isConnected) this.renderVirtualWindow(list);
+            });
+        });
+    }
+
+    // Scrolls a card into view, rendering it first when it is off-screen in a windowed list
+    private scrollToCard(taskId: string): HTMLElement | null {
+        if (!this.getCardElement(taskId)) {
+            const list = Object.values(this._virtualLists).find(l => l.container.isConnected && l.taskIds.includes(taskId));
+            if (list) this.renderVirtualWindow(list, taskId);
+        }
+        const card = this.getCardElement(taskId);
+        card?.scrollIntoView({ block: 'nearest' });
+        return card;
+    }
+
+    // Card ids of a tasks container in display order, including the cards a windowed list has not rendered
+    private getContainerTaskIds(container: HTMLElement): string[] {
+        const list = this._virtualLists[this.getScrollKey(container)];
+        if (list && list.container === container) return list.taskIds;
+        return Array.from(container.querySelectorAll<HTMLElement>('.kanban-task-card'))
+            .map(card => card.getAttribute('data-task-id') || '');
+    }
+
+    // Card plus its state badges, rebuilt only when the task or its state changed
+    private renderTaskCard(task: Task, column: Column, enableDragDrop: boolean): HTMLElement {
+        // Temporary cards have no record yet, so they cannot be moved
+        const isPendingCreate = !!this._pendingCreates[task.id];
+        const isSaving = !!this._pendingMoves[task.id] || !!this._pendingEdits[task.id] || isPendingCreate;
+        const moveError = this._moveErrors[task.id] || '';
+        const key = JSON.stringify([this._renderContextKey, task, !!column.isUnmapped, isPendingCreate, isSaving, moveError, this._selection.includes(task.id)]);
+
+        const taskElement = this.renderKeyed(`card:${task.id}`, key, () => {
+            const card = this.createTaskCard(task, enableDragDrop && !isPendingCreate);
+            if (column.isUnmapped) {
+                card.appendChild(this.createUnmappedStatusBadge(task));
+            }
+            if (isSaving) {
+                card.classList.add('kanban-task-saving');
+                card.appendChild(this.createSavingBadge());
+            } else if (moveError) {
+                card.classList.add('kanban-task-failed');
+                card.appendChild(this.createMoveErrorBadge(moveError));
+            }
+            return card;
+        });
+
+        // A reused card may still look picked up; showKeyboardTarget() marks the active one again
+        taskElement.classList.remove('kanban-task-grabbed');
+        taskElement.removeAttribute('aria-pressed');
+        return taskElement;
+    }
+
+    private getColumnCardLimit(limitKey: string): number {
+        const step = this._context.parameters.columnCardLimit?.raw || 0;
+        if (step <= 0) return Number.MAX_SAFE_INTEGER;
+        return Math.max(step, this._columnVisibleCounts[limitKey] || 0);
+    }
+
+    private createUnmappedStatusBadge(task: Task): HTMLElement {
+        const badge = document.createElement('div');
+        badge.className = 'unmapped-status-badge';
+        badge.textContent = `Status: ${task.status || '(empty)'}`;
+        badge.title = 'This status is not mapped to any column. Drag the card to a column to fix it.';
+        return badge;
+    }
+
+    private createSavingBadge(): HTMLElement {
+        const badge = document.createElement('div');
+        badge.className = 'move-saving-badge';
+        badge.textContent = 'Saving…';
+        return badge;
+    }
+
+    private createMoveErrorBadge(message: string): HTMLElement {
+        const badge = document.createElement('div');
+        badge.className = 'move-error-badge';
+        badge.textContent = `Not saved: ${message}`;
+        badge.title = message;
+        return badge;
+    }
+
     private applyCardsVerticalAlignment(container: HTMLElement): void {
         switch (this._alignmentConfig.cardsVertical) {
             case 'Middle':
@@ -1049,7 +3880,17 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
         // Row 2: Date (Meta) - SECOND (below title) - [5] DATUM
         const lblSubtitle = document.createElement('div');
         lblSubtitle.className = 'task-subtitle';
-        lblSubtitle.textContent = task.dueDate || 'Today';
+        const dueDate = this.getTaskDueDate(task);
+        // Unparseable text is shown as it is, a missing date shows nothing
+        lblSubtitle.textContent = dueDate ? this.formatDate(dueDate) : task.dueDate || '';
+        if (dueDate) {
+            lblSubtitle.title = this.formatAbsoluteDate(dueDate);
+        }
+        const dueState = this.getDueState(task);
+        if (dueState) {
+            lblSubtitle.classList.add(dueState === 'overdue' ? 'due-overdue' : 'due-soon');
+            taskDiv.classList.add(dueState === 'overdue' ? 'kanban-task-overdue' : 'kanban-task-due-soon');
+        }
         lblSubtitle.style.fontWeight = '400'; // Regular
         lblSubtitle.style.fontSize = '13px';
         lblSubtitle.style.color = '#6B7280'; // [5] Barva: Šedá
@@ -1057,7 +3898,9 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
         lblSubtitle.style.textAlign = 'left'; // Align with title start
 
         titlesContainer.appendChild(lblTitle); // Title first
-        titlesContainer.appendChild(lblSubtitle); // Date second
+        if (lblSubtitle.textContent) {
+            titlesContainer.appendChild(lblSubtitle); // Date second
+        }
         header.appendChild(titlesContainer);
         taskDiv.appendChild(header);
 
@@ -1162,26 +4005,8 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
         shareBtn.onclick = (e) => {
             e.stopPropagation();
 
-            // Remove any existing overlay
-            const existingOverlay = document.querySelector('.kanban-overlay');
-            if (existingOverlay) existingOverlay.remove();
-
             // 1. Create Overlay (Cover the board) with glassmorphism
-            const overlay = document.createElement('div');
-            overlay.className = 'kanban-overlay';
-            overlay.style.position = 'absolute';
-            overlay.style.top = '0';
-            overlay.style.left = '0';
-            overlay.style.width = '100%';
-            overlay.style.height = '100%';
-            overlay.style.backgroundColor = this._shareModalConfig.overlayColor || 'rgba(0, 0, 0, 0.4)';
-            overlay.style.backdropFilter = 'blur(8px)'; // Glassmorphism blur
-            overlay.style.setProperty('-webkit-backdrop-filter', 'blur(8px)'); // Safari support
-            overlay.style.zIndex = '1000';
-            overlay.style.display = 'flex';
-            overlay.style.alignItems = 'center';
-            overlay.style.justifyContent = 'center';
-            overlay.onclick = () => overlay.remove();
+            const overlay = this.createOverlay();
 
             // 2. Create Modal Popup - SOLID WHITE, NO transparency
             const sharePopup = document.createElement('div');
@@ -1213,9 +4038,11 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
             headerDiv.style.marginBottom = '4px';
 
             const headerTitle = document.createElement('h2');
-            const emailAddress = task.assignedTo || 'alex.morgan@company.com';
-            headerTitle.textContent = `Send message to ${emailAddress}`;
-            headerTitle.setAttribute('title', emailAddress); // Hover tooltip for full email
+            const setRecipientTitle = (recipient: string) => {
+                headerTitle.textContent = recipient ? `Send message to ${recipient}` : 'Send message';
+                headerTitle.setAttribute('title', recipient); // Hover tooltip for full email
+            };
+            setRecipientTitle(task.assignedTo || task.authorEmail || '');
             headerTitle.style.fontSize = '18px';
             headerTitle.style.fontWeight = '600';
             headerTitle.style.color = '#111827';
@@ -1225,28 +4052,48 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
             headerTitle.style.whiteSpace = 'nowrap';
             headerTitle.style.flex = '1';
 
-            const closeBtn = document.createElement('button');
-            closeBtn.innerHTML = '×';
-            closeBtn.style.background = 'none';
-            closeBtn.style.border = 'none';
-            closeBtn.style.fontSize = '28px';
-            closeBtn.style.color = '#9ca3af';
-            closeBtn.style.cursor = 'pointer';
-            closeBtn.style.padding = '0';
-            closeBtn.style.width = '32px';
-            closeBtn.style.height = '32px';
-            closeBtn.style.display = 'flex';
-            closeBtn.style.alignItems = 'center';
-            closeBtn.style.justifyContent = 'center';
-            closeBtn.style.flexShrink = '0';
-            closeBtn.onclick = () => overlay.remove();
-            closeBtn.onmouseover = () => closeBtn.style.color = '#6b7280';
-            closeBtn.onmouseout = () => closeBtn.style.color = '#9ca3af';
+            const closeBtn = this.createCloseButton(() => overlay.remove());
 
             headerDiv.appendChild(headerTitle);
             headerDiv.appendChild(closeBtn);
             sharePopup.appendChild(headerDiv);
 
+            // Recipient field, prefilled with the assignee
+            const recipientContainer = document.createElement('div');
+            recipientContainer.style.marginTop = '4px';
+
+            const recipientLabel = document.createElement('label');
+            recipientLabel.textContent = 'TO';
+            recipientLabel.style.display = 'block';
+            recipientLabel.style.fontSize = '11px';
+            recipientLabel.style.fontWeight = '600';
+            recipientLabel.style.color = '#6b7280';
+            recipientLabel.style.marginBottom = '2px';
+            recipientLabel.style.letterSpacing = '0.5px';
+
+            const recipientInput = document.createElement('input');
+            recipientInput.type = 'text';
+            recipientInput.value = task.assignedTo || task.authorEmail || '';
+            recipientInput.placeholder = 'name@company.com';
+            recipientInput.setAttribute('aria-label', 'Recipient');
+            recipientInput.style.width = '100%';
+            recipientInput.style.padding = '6px 8px';
+            recipientInput.style.border = '1px solid #e5e7eb';
+            recipientInput.style.borderRadius = '6px';
+            recipientInput.style.fontSize = '14px';
+            recipientInput.style.color = '#111827';
+            recipientInput.style.backgroundColor = '#f9fafb';
+            recipientInput.style.boxSizing = 'border-box';
+            recipientInput.onclick = (ev) => ev.stopPropagation();
+            recipientInput.oninput = () => {
+                recipientInput.style.borderColor = '#e5e7eb';
+                setRecipientTitle(recipientInput.value.trim());
+            };
+
+            recipientContainer.appendChild(recipientLabel);
+            recipientContainer.appendChild(recipientInput);
+            sharePopup.appendChild(recipientContainer);
+
             // Subject field
             const subjectContainer = document.createElement('div');
             subjectContainer.style.marginTop = '4px'; // Reduced from 16px
@@ -1333,7 +4180,12 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
             btnTeams.innerHTML = '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="40" viewBox="0 0 28 28" fill="none"><rect width="28" height="28" rx="4" fill="#5059C9"/><path d="M8 8h12v3H8V8zm0 5h8v7H8v-7zm10 0h2v7h-2v-7z" fill="white"/><circle cx="21" cy="6" r="3" fill="#7B83EB"/><circle cx="7" cy="6" r="2" fill="#7B83EB"/></svg>';
             btnTeams.onclick = (ev) => {
                 ev.stopPropagation();
-                console.log(`Shared to Teams: ${txtMsg.value}`);
+                // A Teams chat needs someone to chat with
+                if (!this.shareTask(task, 'teams', recipientInput.value.trim(), subjectInput.value, txtMsg.value)) {
+                    recipientInput.style.borderColor = '#dc2626';
+                    recipientInput.focus();
+                    return;
+                }
                 overlay.remove();
             };
             btnTeams.onmouseover = () => {
@@ -1360,29 +4212,403 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
             btnEmail.innerHTML = '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="40" viewBox="0 0 28 28" fill="none"><rect x="2" y="5" width="24" height="18" rx="3" fill="#0078D4"/><path d="M2 8l12 8 12-8" stroke="white" stroke-width="2" fill="none"/></svg>';
             btnEmail.onclick = (ev) => {
                 ev.stopPropagation();
-                console.log(`Shared to Email: ${txtMsg.value}`);
+                this.shareTask(task, 'email', recipientInput.value.trim(), subjectInput.value, txtMsg.value);
+                overlay.remove();
+            };
+            btnEmail.onmouseover = () => {
+                btnEmail.style.backgroundColor = '#f3f4f6';
+            };
+            btnEmail.onmouseout = () => {
+                btnEmail.style.backgroundColor = 'transparent';
+            };
+
+            methodsDiv.appendChild(btnTeams);
+            methodsDiv.appendChild(btnEmail);
+            sharePopup.appendChild(methodsDiv);
+
+            overlay.appendChild(sharePopup);
+            this._container.appendChild(overlay);
+        };
+
+        footerRow.appendChild(shareBtn);
+        footer.appendChild(footerRow);
+        taskDiv.appendChild(footer);
+
+        // Open the detail panel on click (a drag does not produce a click)
+        taskDiv.onclick = (e) => {
+            // A pointer drag ends with a click on the card
+            if (Date.now() - this._pointerDragEndedAt <= 300) return;
+            if (enableDragDrop && (e.ctrlKey || e.metaKey || e.shiftKey)) {
+                this.updateSelection(task.id, e.shiftKey ? 'range' : 'toggle');
+                return;
+            }
+            if (this._selection.length > 0) this.clearSelection();
+            this.openTaskDetail(task.id);
+        };
+
+        const selected = this._selection.includes(task.id);
+        if (selected) {
+            taskDiv.classList.add('kanban-task-selected');
+        }
+
+        taskDiv.tabIndex = 0;
+        taskDiv.setAttribute('role', 'button');
+        taskDiv.setAttribute('aria-label', [task.title, task.priority, task.dueDate, selected ? 'selected' : ''].filter(v => !!v).join(', '));
+        taskDiv.setAttribute('aria-roledescription', enableDragDrop ? 'Movable card' : 'Card');
+        if (enableDragDrop) {
+            taskDiv.setAttribute('aria-keyshortcuts', 'Space');
+        }
+        taskDiv.onkeydown = (e) => this.handleCardKeyDown(e, task.id, enableDragDrop);
+
+        return taskDiv;
+    }
+
+    /**
+     * Sends a message from the share popup: writes shareRequested and the share boardEvent and, unless
+     * shareMode is OutputOnly, opens the mailto: link or the Teams chat. Returns false when Teams has no recipient.
+     */
+    private shareTask(task: Task, channel: BoardSharePayload['channel'], recipient: string, subject: string, message: string): boolean {
+        if (channel === 'teams' && this.splitRecipients(recipient).length === 0) return false;
+
+        const taskId = task.recordId || task.id;
+        const link = channel === 'email'
+            ? this.buildMailtoLink(recipient, subject, message)
+            : this.buildTeamsChatLink(recipient, subject, message);
+        this._lastShareRequest = { taskId, channel, recipient, subject, message, link, timestamp: new Date().toISOString() };
+        this.emitBoardEvent('share', { taskId, channel, recipient, subject, message });
+        this._notifyOutputChanged();
+
+        if (this._context.parameters.shareMode?.raw !== 'OutputOnly') {
+            this.openExternalLink(link);
+        }
+        return true;
+    }
+
+    // Several recipients may be separated by commas or semicolons
+    private splitRecipients(recipient: string): string[] {
+        return recipient.split(/[,;]/).map(address => address.trim()).filter(address => !!address);
+    }
+
+    // RFC 6068: every part percent-encoded with CRLF line breaks; '@' stays readable for mail clients
+    private buildMailtoLink(recipient: string, subject: string, message: string): string {
+        const encode = (value: string) => encodeURIComponent(value.replace(/\r?\n/g, '\r\n'));
+        const to = this.splitRecipients(recipient).map(address => encode(address).replace(/%40/g, '@')).join(',');
+        return `mailto:${to}?subject=${encode(subject)}&body=${encode(message)}`;
+    }
+
+    // Teams chat deep link; a 1:1 chat has no topic, so the subject leads the prefilled message
+    private buildTeamsChatLink(recipient: string, subject: string, message: string): string {
+        const users = this.splitRecipients(recipient);
+        const text = [subject.trim(), message.trim()].filter(part => !!part).join('\n\n');
+        let link = `https://teams.microsoft.com/l/chat/0/0?users=${encodeURIComponent(users.join(','))}`;
+        if (users.length > 1 && subject.trim()) {
+            link += `&topicName=${encodeURIComponent(subject.trim())}`;
+        }
+        return `${link}&message=${encodeURIComponent(text)}`;
+    }
+
+    // navigation.openUrl leaves the Power Apps sandbox; window.open covers hosts without it
+    private openExternalLink(url: string): void {
+        try {
+            this._context.navigation.openUrl(url);
+        } catch (e) {
+            console.warn("openUrl failed, falling back to window.open:", e);
+            window.open(url, '_blank', 'noopener');
+        }
+    }
+
+    /**
+     * Creates the blurred overlay that covers the board, replacing any overlay already open.
+     * Clicking the backdrop or pressing Escape closes it. The caller appends content and attaches it.
+     */
+    private createOverlay(): HTMLElement {
+        const existingOverlay = document.querySelector('.kanban-overlay');
+        if (existingOverlay) existingOverlay.remove();
+
+        const overlay = document.createElement('div');
+        overlay.className = 'kanban-overlay';
+        overlay.style.position = 'absolute';
+        overlay.style.top = '0';
+        overlay.style.left = '0';
+        overlay.style.width = '100%';
+        overlay.style.height = '100%';
+        overlay.style.backgroundColor = this._shareModalConfig.overlayColor || 'rgba(0, 0, 0, 0.4)';
+        overlay.style.backdropFilter = 'blur(8px)'; // Glassmorphism blur
+        overlay.style.setProperty('-webkit-backdrop-filter', 'blur(8px)'); // Safari support
+        overlay.style.zIndex = '1000';
+        overlay.style.display = 'flex';
+        overlay.style.alignItems = 'center';
+        overlay.style.justifyContent = 'center';
+        overlay.tabIndex = -1;
+        overlay.onclick = () => overlay.remove();
+        overlay.onkeydown = (e) => {
+            if (e.key === 'Escape') overlay.remove();
+        };
+        return overlay;
+    }
+
+    private createCloseButton(onClose: () => void): HTMLElement {
+        const closeBtn = document.createElement('button');
+        closeBtn.innerHTML = '×';
+        closeBtn.setAttribute('aria-label', 'Close');
+        closeBtn.style.background = 'none';
+        closeBtn.style.border = 'none';
+        closeBtn.style.fontSize = '28px';
+        closeBtn.style.color = '#9ca3af';
+        closeBtn.style.cursor = 'pointer';
+        closeBtn.style.padding = '0';
+        closeBtn.style.width = '32px';
+        closeBtn.style.height = '32px';
+        closeBtn.style.display = 'flex';
+        closeBtn.style.alignItems = 'center';
+        closeBtn.style.justifyContent = 'center';
+        closeBtn.style.flexShrink = '0';
+        closeBtn.onclick = onClose;
+        closeBtn.onmouseover = () => closeBtn.style.color = '#6b7280';
+        closeBtn.onmouseout = () => closeBtn.style.color = '#9ca3af';
+        return closeBtn;
+    }
+
+    // Field keys listed in editableFields (lower-case)
+    private getEditableFields(): Set<string> {
+        const raw = this._context.parameters.editableFields?.raw || '';
+        return new Set(this.splitStatusList(raw).map(field => field.toLowerCase()));
+    }
+
+    // Mapped fields first, then every other dataset column
+    private getDetailFields(task: Task): { key: string; label: string }[] {
+        const mapped = [
+            { key: 'title', label: 'Title' },
+            { key: 'description', label: 'Description' },
+            { key: 'priority', label: 'Priority' },
+            { key: 'assignedto', label: 'Assigned To' },
+            { key: 'duedate', label: 'Due Date' }
+        ];
+        const hidden = new Set(['id', 'status', 'sortorder', 'title', 'description', 'priority', 'assignedto', 'duedate']);
+
+        const extra: { key: string; label: string }[] = [];
+        const dataSet = this._context.parameters.taskDataSet;
+        if (this._dataSource === 'dataset' && dataSet?.columns) {
+            dataSet.columns.forEach(column => {
+                if (hidden.has((column.alias || column.name).toLowerCase())) return;
+                extra.push({ key: column.name, label: column.displayName || column.name });
+            });
+        } else if (task.fields) {
+            Object.keys(task.fields)
+                .filter(key => !hidden.has(key.toLowerCase()))
+                .forEach(key => extra.push({ key, label: key }));
+        }
+        return [...mapped, ...extra];
+    }
+
+    private openTaskDetail(taskId: string): void {
+        const task = this._boardData.tasks[taskId];
+        if (!task) return;
+        this.emitSelectEvent(taskId);
+
+        const editable = this.getEditableFields();
+        const inputs: Record<string, HTMLInputElement | HTMLTextAreaElement> = {};
+
+        const overlay = this.createOverlay();
+
+        const panel = document.createElement('div');
+        panel.className = 'task-detail-panel';
+        panel.setAttribute('role', 'dialog');
+        panel.setAttribute('aria-label', task.title);
+        panel.onclick = (ev) => ev.stopPropagation();
+
+        const header = document.createElement('div');
+        header.className = 'task-detail-header';
+        const statusChip = document.createElement('span');
+        statusChip.className = 'task-detail-status';
+        statusChip.textContent = task.status || '(no status)';
+        header.appendChild(statusChip);
+        header.appendChild(this.createCloseButton(() => overlay.remove()));
+        panel.appendChild(header);
+
+        const fieldList = document.createElement('div');
+        fieldList.className = 'task-detail-fields';
+
+        this.getDetailFields(task).forEach(({ key, label }) => {
+            const value = this.getTaskFieldValue(task, key);
+            const isEditable = editable.has(key.toLowerCase());
+            if (!value && !isEditable) return;
+
+            const row = document.createElement('div');
+            row.className = 'task-detail-field';
+
+            const lbl = document.createElement('label');
+            lbl.textContent = label.toUpperCase();
+            row.appendChild(lbl);
+
+            if (isEditable) {
+                const input = key === 'description' ? document.createElement('textarea') : document.createElement('input');
+                input.className = 'task-detail-input';
+                input.value = value;
+                input.setAttribute('aria-label', label);
+                inputs[key] = input;
+                row.appendChild(input);
+            } else {
+                const valueDiv = document.createElement('div');
+                valueDiv.className = key === 'title' ? 'task-detail-value task-detail-title' : 'task-detail-value';
+                valueDiv.textContent = value;
+                row.appendChild(valueDiv);
+            }
+            fieldList.appendChild(row);
+        });
+        panel.appendChild(fieldList);
+
+        if (Object.keys(inputs).length > 0) {
+            const actions = document.createElement('div');
+            actions.className = 'share-actions';
+
+            const cancelBtn = document.createElement('button');
+            cancelBtn.className = 'action-btn secondary';
+            cancelBtn.textContent = 'Cancel';
+            cancelBtn.onclick = () => overlay.remove();
+
+            const saveBtn = document.createElement('button');
+            saveBtn.className = 'action-btn primary';
+            saveBtn.textContent = 'Save';
+            saveBtn.onclick = () => {
+                const changes: Record<string, string> = {};
+                Object.keys(inputs).forEach(key => {
+                    if (inputs[key].value !== this.getTaskFieldValue(task, key)) {
+                        changes[key] = inputs[key].value;
+                    }
+                });
                 overlay.remove();
-            };
-            btnEmail.onmouseover = () => {
-                btnEmail.style.backgroundColor = '#f3f4f6';
-            };
-            btnEmail.onmouseout = () => {
-                btnEmail.style.backgroundColor = 'transparent';
+                this.applyTaskEdits(taskId, changes);
             };
 
-            methodsDiv.appendChild(btnTeams);
-            methodsDiv.appendChild(btnEmail);
-            sharePopup.appendChild(methodsDiv);
+            actions.appendChild(cancelBtn);
+            actions.appendChild(saveBtn);
+            panel.appendChild(actions);
+        }
 
-            overlay.appendChild(sharePopup);
-            this._container.appendChild(overlay);
+        overlay.appendChild(panel);
+        this._container.appendChild(overlay);
+        const firstInput = Object.values(inputs)[0];
+        (firstInput || overlay).focus();
+    }
+
+    private applyTaskEdits(taskId: string, changes: Record<string, string>): void {
+        const task = this._boardData.tasks[taskId];
+        if (!task || Object.keys(changes).length === 0) return;
+
+        const previousValues: Record<string, string> = {};
+        Object.keys(changes).forEach(key => {
+            previousValues[key] = this.getTaskFieldValue(task, key);
+            this.setTaskFieldValue(task, key, changes[key]);
+        });
+        this.markTasksChanged([taskId]);
+        delete this._moveErrors[taskId];
+        this.startPendingEdit(taskId, changes, previousValues);
+
+        this._lastEditedTask = {
+            taskId: task.recordId || task.id,
+            editId: this._pendingEdits[taskId]?.editId ?? null,
+            changes,
+            previousValues,
+            timestamp: new Date().toISOString()
         };
+        this.emitBoardEvent('edit', this._lastEditedTask);
+        this.recordHistory({ type: 'edit', taskId, changes, previousValues });
 
-        footerRow.appendChild(shareBtn);
-        footer.appendChild(footerRow);
-        taskDiv.appendChild(footer);
+        this.renderBoard();
+        this._notifyOutputChanged();
+    }
 
-        return taskDiv;
+    /**
+     * Keeps saved edits on the card until the data source holds them, the app confirms them through
+     * editAcknowledgement, or they are rejected or time out and get reverted. Further edits of the
+     * same card before that join the pending edit and keep its original values for the revert.
+     */
+    private startPendingEdit(taskId: string, changes: Record<string, string>, previousValues: Record<string, string>): void {
+        if (this._dataSource !== 'dataset') return;
+
+        const existing = this._pendingEdits[taskId];
+        if (existing?.timer) window.clearTimeout(existing.timer);
+
+        const pending: PendingEdit = {
+            editId: `edit_${Date.now()}_${++this._moveCounter}`,
+            taskId,
+            changes: { ...existing?.changes, ...changes },
+            previousValues: { ...previousValues, ...existing?.previousValues }
+        };
+
+        const timeoutSeconds = this._context.parameters.moveTimeout?.raw ?? 30;
+        if (timeoutSeconds > 0) {
+            pending.timer = window.setTimeout(() => {
+                this.failPendingEdit(taskId, `Save timed out after ${timeoutSeconds} s`);
+            }, timeoutSeconds * 1000);
+        }
+        this._pendingEdits[taskId] = pending;
+    }
+
+    private confirmPendingEdit(taskId: string): void {
+        const pending = this._pendingEdits[taskId];
+        if (!pending) return;
+
+        if (pending.timer) window.clearTimeout(pending.timer);
+        delete this._pendingEdits[taskId];
+    }
+
+    private failPendingEdit(taskId: string, message: string): void {
+        const pending = this._pendingEdits[taskId];
+        if (!pending) return;
+
+        if (pending.timer) window.clearTimeout(pending.timer);
+        delete this._pendingEdits[taskId];
+        console.warn("Edit reverted:", pending.editId, message);
+
+        // Look the task up again, the board may have been reloaded while waiting
+        const task = this._boardData.tasks[taskId];
+        if (task) {
+            Object.keys(pending.previousValues).forEach(field => {
+                this.setTaskFieldValue(task, field, pending.previousValues[field]);
+            });
+            this.markTasksChanged([taskId]);
+        }
+        this._moveErrors[taskId] = message;
+
+        this.renderBoard();
+        this._notifyOutputChanged();
+    }
+
+    /**
+     * Reads the editAcknowledgement input: either a JSON object
+     * {"editId": "...", "status": "confirmed" | "rejected", "message": "..."} or just an editId to confirm.
+     */
+    private processEditAcknowledgement(): void {
+        const raw = this._context.parameters.editAcknowledgement?.raw?.trim() || '';
+        if (!raw || raw === this._lastEditAcknowledgement) return;
+        this._lastEditAcknowledgement = raw;
+
+        let editId = raw;
+        let status = 'confirmed';
+        let message = '';
+        if (raw.startsWith('{')) {
+            try {
+                const ack = JSON.parse(raw) as { editId?: string; status?: string; message?: string };
+                editId = String(ack.editId ?? '');
+                status = String(ack.status ?? 'confirmed').toLowerCase();
+                message = ack.message ? String(ack.message) : '';
+            } catch (e) {
+                console.error("Invalid editAcknowledgement JSON:", e);
+                return;
+            }
+        }
+
+        // Acknowledgements of unknown or already finished edits are ignored
+        const pending = Object.values(this._pendingEdits).find(edit => edit.editId === editId);
+        if (!pending) return;
+
+        if (status === 'rejected') {
+            this.failPendingEdit(pending.taskId, message || 'The edit was rejected');
+        } else {
+            this.confirmPendingEdit(pending.taskId);
+        }
     }
 
     // Removed createTaskContent as logic is integrated
@@ -1629,50 +4855,925 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
         return metadata;
     }
 
-    private moveTask(taskId: string, sourceColumnId: string, targetColumnId: string): void {
-        if (sourceColumnId === targetColumnId) return;
+    /**
+     * Moves a task to a column (and lane). options.laneValue is given for drops into a swimlane cell,
+     * a different lane updates the lane field. options.index is the position in the target column
+     * (counted without the moved task); without it the task is appended.
+     */
+    private moveTask(taskId: string, sourceColumnId: string, targetColumnId: string, options: MoveOptions = {}): void {
+        const result = this.applyMove(taskId, sourceColumnId, targetColumnId, options);
+        if (!result) return;
+
+        this.recordHistory({ type: 'move', moves: [this.createHistoryMove(taskId, sourceColumnId, targetColumnId, result)] });
+        this._lastLaneChange = result.laneChange;
+        this._lastReorder = result.reorder;
+
+        this.renderBoard();
+        this.evaluateWipLimits(taskId);
+
+        // Prepare Output to trigger Power Apps OnChange
+        if (result.statusChanged || result.laneChange) {
+            this._lastUpdatedTask = taskId;
+            this._lastMovePreviousStatus = result.previousStatus;
+            this.emitBoardEvent('move', {
+                batchId: null,
+                targetStatus: this._boardData.tasks[taskId].status,
+                moves: [this.createMoveItem(taskId, sourceColumnId, targetColumnId, result)],
+                reorder: result.reorder,
+                directWriteBack: this.isDirectWriteBackEnabled()
+            });
+        } else if (result.reorder) {
+            this.emitBoardEvent('reorder', result.reorder);
+        }
+        this._notifyOutputChanged();
+
+        if ((result.statusChanged || result.laneChange) && this.isDirectWriteBackEnabled()) {
+            this.writeBackMove(this._boardData.tasks[taskId], result);
+        }
+    }
+
+    /**
+     * Moves several cards to one column in board order, starting at options.index, and reports them
+     * as a single batchMove output instead of one lastMovedTask per card.
+     */
+    private moveTasks(taskIds: string[], targetColumnId: string, options: { laneValue?: string; index?: number } = {}): void {
+        const targetColumn = this._boardData.columns[targetColumnId];
+        if (!targetColumn) return;
+
+        let previousId: string | null = null;
+        this.applyBatchMove(taskIds, taskId => {
+            // Keep the selection together: each card goes right after the previous one
+            const index: number | undefined = previousId !== null
+                ? targetColumn.taskIds.filter(id => id !== taskId).indexOf(previousId) + 1
+                : options.index;
+            previousId = taskId;
+            return { columnId: targetColumnId, laneValue: options.laneValue, index };
+        });
+    }
+
+    // Applies the moves in order and emits them as one batchMove; target is asked right before each move
+    private applyBatchMove(taskIds: string[], target: (taskId: string) => CardPosition): void {
+        const moves: BatchMoveItem[] = [];
+        const historyMoves: HistoryMove[] = [];
+        const writeBacks: { task: Task; result: MoveResult }[] = [];
+        const rankUpdates: Record<string, number> = {};
+        let reorder: ReorderInfo | null = null;
+
+        for (const taskId of taskIds) {
+            const sourceColumnId = this.findTaskColumnId(taskId);
+            if (!sourceColumnId) continue;
+
+            const position = target(taskId);
+            const result = this.applyMove(taskId, sourceColumnId, position.columnId, { laneValue: position.laneValue, index: position.index, status: position.status });
+            if (!result) continue;
+
+            historyMoves.push(this.createHistoryMove(taskId, sourceColumnId, position.columnId, result));
+            if (result.reorder) {
+                reorder = result.reorder;
+                result.reorder.rankUpdates.forEach(update => rankUpdates[update.taskId] = update.rank);
+            }
+            if (result.statusChanged || result.laneChange) {
+                writeBacks.push({ task: this._boardData.tasks[taskId], result });
+                moves.push(this.createMoveItem(taskId, sourceColumnId, position.columnId, result));
+            }
+        }
+
+        if (historyMoves.length > 0) {
+            this.recordHistory({ type: 'move', moves: historyMoves });
+        }
+
+        this._lastReorder = reorder ? {
+            ...reorder,
+            rankUpdates: Object.keys(rankUpdates).map(taskId => ({ taskId, rank: rankUpdates[taskId] }))
+        } : null;
+
+        if (moves.length > 0) {
+            this._lastBatchMove = {
+                batchId: `batch_${Date.now()}`,
+                // Empty when the cards went to different statuses (undo of a batch)
+                targetStatus: moves.every(move => move.newStatus === moves[0].newStatus) ? moves[0].newStatus : '',
+                count: moves.length,
+                moves,
+                directWriteBack: this.isDirectWriteBackEnabled(),
+                timestamp: new Date().toISOString()
+            };
+            // The batch replaces the per-card output
+            this._lastUpdatedTask = null;
+            this._lastLaneChange = null;
+            this.emitBoardEvent('move', {
+                batchId: this._lastBatchMove.batchId,
+                targetStatus: this._lastBatchMove.targetStatus,
+                moves,
+                reorder: this._lastReorder,
+                directWriteBack: this._lastBatchMove.directWriteBack
+            });
+        } else if (this._lastReorder) {
+            this.emitBoardEvent('reorder', this._lastReorder);
+        }
+
+        this.renderBoard();
+        this.evaluateWipLimits(taskIds[taskIds.length - 1]);
+        this._notifyOutputChanged();
+
+        if (this.isDirectWriteBackEnabled()) {
+            writeBacks.forEach(({ task, result }) => this.writeBackMove(task, result));
+        }
+    }
+
+    private createMoveItem(taskId: string, sourceColumnId: string, targetColumnId: string, result: MoveResult): BatchMoveItem {
+        const task = this._boardData.tasks[taskId];
+        return {
+            taskId: task.recordId || task.id,
+            title: task.title,
+            fromColumnId: sourceColumnId,
+            toColumnId: targetColumnId,
+            previousStatus: result.previousStatus,
+            newStatus: task.status,
+            newRank: task.rank ?? null,
+            moveId: this._pendingMoves[taskId]?.moveId ?? null,
+            ...(result.laneChange ? {
+                laneField: result.laneChange.field,
+                previousLaneValue: result.laneChange.previousValue,
+                newLaneValue: result.laneChange.newValue
+            } : {})
+        };
+    }
+
+    /**
+     * Sets the boardEvent output; the caller notifies. Only the latest event reaches the app,
+     * so each user action emits exactly one.
+     */
+    private emitBoardEvent<T extends BoardEventType>(eventType: T, payload: BoardEventPayloads[T]): void {
+        this._lastBoardEvent = {
+            schemaVersion: BOARD_EVENT_SCHEMA_VERSION,
+            eventType,
+            eventId: `evt_${Date.now()}_${++this._moveCounter}`,
+            timestamp: new Date().toISOString(),
+            origin: this._boardEventOrigin,
+            payload
+        };
+        this._triggerUpdate = !this._triggerUpdate;
+    }
+
+    private findTaskColumnId(taskId: string): string | undefined {
+        return this._boardData.columnOrder.find(id => this._boardData.columns[id].taskIds.includes(taskId));
+    }
 
+    // Applies a move to the board state without rendering; null when nothing changed
+    private applyMove(taskId: string, sourceColumnId: string, targetColumnId: string, options: MoveOptions): MoveResult | null {
         const sourceColumn = this._boardData.columns[sourceColumnId];
         const targetColumn = this._boardData.columns[targetColumnId];
         const task = this._boardData.tasks[taskId];
 
-        if (!sourceColumn || !targetColumn || !task) return;
+        // The Unmapped column only lists cards with an unknown status, nothing moves into it
+        if (!sourceColumn || !targetColumn || targetColumn.isUnmapped || !task) return null;
+
+        const targetLaneValue = options.laneValue;
+        const laneField = targetLaneValue !== undefined ? this.getSwimlaneField() : '';
+        const previousLaneValue = laneField ? this.getTaskFieldValue(task, laneField) : '';
+        const laneChanged = !!laneField && previousLaneValue.toLowerCase() !== targetLaneValue!.toLowerCase();
+
+        const sourceIndex = sourceColumn.taskIds.indexOf(taskId);
+        const remainingCount = targetColumn.taskIds.filter(id => id !== taskId).length;
+        const targetIndex = Math.max(0, Math.min(options.index ?? remainingCount, remainingCount));
+        const statusChanged = sourceColumnId !== targetColumnId;
+
+        // A sorted column decides the position itself
+        const targetSorted = this.isColumnSorted(targetColumn);
+        if (!statusChanged && !laneChanged && (sourceIndex === targetIndex || targetSorted)) return null;
+
+        const previousStatus = task.status;
+        const rollback: MoveRollback = {
+            sourceColumnId,
+            sourceIndex,
+            previousStatus,
+            ...(laneChanged ? { laneField, previousLaneValue } : {})
+        };
+
+        if (sourceIndex > -1) {
+            sourceColumn.taskIds.splice(sourceIndex, 1);
+        }
+        targetColumn.taskIds.splice(targetIndex, 0, taskId);
+        this.markTasksChanged([taskId]);
+        this.markColumnsChanged([sourceColumnId, targetColumnId]);
+
+        if (statusChanged) {
+            task.status = options.status || targetColumn.statusValues[0] || targetColumn.title;
+
+            // OPTIMISTIC UPDATE:
+            // Mark this task as having a "pending" status so consecutive updates don't revert it
+            // until we get a confirmation (or we just trust the UI state for a bit)
+            task.isOptimistic = true;
+        }
+
+        let laneChange: LaneChange | null = null;
+        if (laneChanged) {
+            this.setTaskFieldValue(task, laneField, targetLaneValue!);
+            task.optimisticFields = { ...task.optimisticFields, [laneField]: targetLaneValue! };
+            laneChange = { field: laneField, previousValue: previousLaneValue, newValue: targetLaneValue! };
+        }
+
+        const reorder = targetSorted ? null : this.updateRanks(targetColumn, taskId);
+
+        if (statusChanged || laneChanged) {
+            delete this._moveErrors[taskId];
+            this.startPendingMove(taskId, rollback);
+        }
+
+        return { sourceIndex, statusChanged, previousStatus, laneChange, reorder };
+    }
+
+    private createHistoryMove(taskId: string, sourceColumnId: string, targetColumnId: string, result: MoveResult): HistoryMove {
+        return {
+            taskId,
+            from: {
+                columnId: sourceColumnId,
+                index: result.sourceIndex,
+                laneValue: result.laneChange?.previousValue,
+                status: result.previousStatus
+            },
+            to: {
+                columnId: targetColumnId,
+                index: this._boardData.columns[targetColumnId].taskIds.indexOf(taskId),
+                laneValue: result.laneChange?.newValue,
+                status: this._boardData.tasks[taskId].status
+            }
+        };
+    }
+
+    private recordHistory(entry: HistoryEntry): void {
+        if (this._replayingHistory) return;
+        this._undoStack.push(entry);
+        if (this._undoStack.length > HISTORY_LIMIT) this._undoStack.shift();
+        this._redoStack = [];
+    }
+
+    private undo(): void {
+        this.replayHistory('undo');
+    }
+
+    private redo(): void {
+        this.replayHistory('redo');
+    }
+
+    /**
+     * Undo and redo go through the regular operations, so they emit the usual outputs (lastMovedTask,
+     * batchMove, editedTask, taskCreated) and the app reverts records with its existing Patch logic.
+     * historyEvent tells the app which action it was, and which record to delete when a create is undone.
+     */
+    private replayHistory(action: HistoryEvent['action']): void {
+        const entry = (action === 'undo' ? this._undoStack : this._redoStack).pop();
+        if (!entry) {
+            this.announce(action === 'undo' ? 'Nothing to undo' : 'Nothing to redo');
+            return;
+        }
+        if (entry.type === 'move' && this.refuseHistoryMove(entry, action)) return;
+        (action === 'undo' ? this._redoStack : this._undoStack).push(entry);
+
+        const description = this.describeHistoryEntry(entry);
+        let taskIds: string[] = [];
+        let tempId: string | undefined;
+        const previousEvent = this._lastBoardEvent;
+
+        this._replayingHistory = true;
+        this._boardEventOrigin = action;
+        try {
+            switch (entry.type) {
+                case 'move': {
+                    const moves = (action === 'undo' ? [...entry.moves].reverse() : entry.moves)
+                        .filter(move => !!this._boardData.tasks[move.taskId]);
+                    const positions: Record<string, CardPosition> = {};
+                    moves.forEach(move => positions[move.taskId] = action === 'undo' ? move.from : move.to);
+                    taskIds = moves.map(move => this._boardData.tasks[move.taskId].recordId || move.taskId);
+
+                    if (moves.length === 1) {
+                        const taskId = moves[0].taskId;
+                        const sourceColumnId = this.findTaskColumnId(taskId);
+                        const position = positions[taskId];
+                        if (sourceColumnId) {
+                            this.moveTask(taskId, sourceColumnId, position.columnId, { laneValue: position.laneValue, index: position.index, status: position.status });
+                        }
+                    } else if (moves.length > 1) {
+                        this.applyBatchMove(moves.map(move => move.taskId), taskId => positions[taskId]);
+                    }
+                    break;
+                }
+                case 'create': {
+                    if (action === 'undo') {
+                        const taskId = this._createdTaskIds[entry.tempId];
+                        const task = taskId ? this._boardData.tasks[taskId] : undefined;
+                        tempId = entry.tempId;
+                        taskIds = task ? [task.recordId || task.id] : [];
+                        this.removePendingCreate(entry.tempId);
+                        if (taskId) this.removeTaskFromBoard(taskId);
+                        this.renderBoard();
+                    } else {
+                        entry.tempId = this.createTask(entry.columnId, entry.laneValue, entry.values) || entry.tempId;
+                        tempId = entry.tempId;
+                    }
+                    break;
+                }
+                case 'edit': {
+                    taskIds = [this._boardData.tasks[entry.taskId]?.recordId || entry.taskId];
+                    this.applyTaskEdits(entry.taskId, action === 'undo' ? entry.previousValues : entry.changes);
+                    break;
+                }
+            }
+        } finally {
+            this._replayingHistory = false;
+            this._boardEventOrigin = 'user';
+        }
+
+        this._lastHistoryEvent = {
+            action,
+            operation: entry.type,
+            taskIds,
+            ...(tempId ? { tempId } : {}),
+            canUndo: this._undoStack.length > 0,
+            canRedo: this._redoStack.length > 0,
+            timestamp: new Date().toISOString()
+        };
+        // The compensating move/create/edit event is what the app saves; undoing a create has none
+        if (this._lastBoardEvent === previousEvent) {
+            this.emitBoardEvent('action', { action, taskIds, history: this._lastHistoryEvent });
+        }
+        this.renderBoard();
+        this._notifyOutputChanged();
+        this.announce(`${action === 'undo' ? 'Undone' : 'Redone'}: ${description}`);
+    }
+
+    /**
+     * Undo and redo obey the Unmapped column, transition rules and WIP limits like any other move.
+     * A refused entry is dropped, since the board has moved on since it was recorded; true when refused.
+     */
+    private refuseHistoryMove(entry: MoveHistoryEntry, action: HistoryEvent['action']): boolean {
+        const groups: Record<string, string[]> = {};
+        entry.moves
+            .filter(move => !!this._boardData.tasks[move.taskId])
+            .forEach(move => {
+                const columnId = (action === 'undo' ? move.from : move.to).columnId;
+                (groups[columnId] = groups[columnId] || []).push(move.taskId);
+            });
+
+        for (const columnId of Object.keys(groups)) {
+            const column = this._boardData.columns[columnId];
+            const group = groups[columnId];
+            const rejection = column ? this.getMoveRejection(group[0], column, group) : null;
+            if (!rejection) continue;
+
+            this._boardEventOrigin = action;
+            try {
+                this.rejectMove(group[0], column, rejection, null, group);
+            } finally {
+                this._boardEventOrigin = 'user';
+            }
+            this.announce(`Cannot ${action}: ${rejection.message}`);
+            return true;
+        }
+        return false;
+    }
+
+    private describeHistoryEntry(entry: HistoryEntry): string {
+        switch (entry.type) {
+            case 'move':
+                return entry.moves.length > 1
+                    ? `move of ${entry.moves.length} cards`
+                    : `move of '${this._boardData.tasks[entry.moves[0].taskId]?.title || ''}'`;
+            case 'create':
+                return `new card '${entry.values.title}'`;
+            case 'edit':
+                return `edit of '${this._boardData.tasks[entry.taskId]?.title || ''}'`;
+        }
+    }
+
+    // Ctrl+Z undoes, Ctrl+Y or Ctrl+Shift+Z redoes; text fields keep their own undo
+    private onBoardKeyDown = (e: KeyboardEvent): void => {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+        const target = e.target as HTMLElement;
+        if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            this.undo();
+        } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+            this.redo();
+        } else {
+            return;
+        }
+        e.preventDefault();
+        e.stopPropagation();
+    };
+
+    private isDirectWriteBackEnabled(): boolean {
+        return this._context.parameters.directWriteBack?.raw === true && this._dataSource === 'dataset';
+    }
+
+    private getWriteBackStatusColumn(): string {
+        const configured = this._context.parameters.writeBackStatusColumn?.raw?.trim();
+        if (configured) return configured;
+
+        const statusColumn = this._context.parameters.taskDataSet?.columns?.find(column => column.alias === 'status');
+        return statusColumn?.name || '';
+    }
+
+    // Logical name of a dataset column given by name or alias, e.g. the swimlane field
+    private getWriteBackColumn(field: string): string {
+        const column = this._context.parameters.taskDataSet?.columns?.find(c => c.name === field || c.alias === field);
+        return column?.name || field;
+    }
+
+    /**
+     * Saves a move through the Web API: the status and, for a move between swimlanes, the lane field
+     * in the same update. On failure the card goes back to its previous column and lane and keeps an
+     * error badge until it is moved again.
+     */
+    private writeBackMove(task: Task, result: MoveResult): void {
+        const dataSet = this._context.parameters.taskDataSet;
+        const entityType = dataSet.getTargetEntityType?.() || '';
+        const statusColumn = this.getWriteBackStatusColumn();
+        const record = task.recordId ? dataSet.records[task.recordId] : undefined;
+        const recordId = record?.getNamedReference?.()?.id?.guid || task.recordId || '';
+
+        if (!entityType || (result.statusChanged && !statusColumn) || !recordId) {
+            this.failPendingMove(task.id, 'writeBack', 'Cannot save: missing entity type, status column or record id');
+            return;
+        }
+
+        const writes: Promise<[string, unknown]>[] = [];
+        if (result.statusChanged) {
+            writes.push(this.getWriteBackValue(entityType, statusColumn, task.status)
+                .then((value): [string, unknown] => [statusColumn, value]));
+        }
+        if (result.laneChange) {
+            const laneColumn = this.getWriteBackColumn(result.laneChange.field);
+            writes.push(this.getWriteBackValue(entityType, laneColumn, result.laneChange.newValue)
+                .then((value): [string, unknown] => [laneColumn, value]));
+        }
+
+        Promise.all(writes)
+            .then(entries => {
+                const values: Record<string, unknown> = {};
+                entries.forEach(([column, value]) => values[column] = value);
+                return this._context.webAPI.updateRecord(entityType, recordId, values);
+            })
+            .then(
+                () => this.completeWriteBack(task.id),
+                (error: { message?: string }) => {
+                    console.error("Write-back failed:", task.id, error);
+                    this.failPendingMove(task.id, 'writeBack', error?.message || 'The record could not be updated');
+                }
+            )
+            .catch(error => console.error("Handling the write-back result failed:", task.id, error));
+    }
+
+    // Choice columns take the option value of the label, any other column the text itself
+    private getWriteBackValue(entityType: string, column: string, text: string): Promise<unknown> {
+        return this.getOptionValues(entityType, column).then(options => {
+            if (Object.keys(options).length === 0) return text;
+            const value = options[text.toLowerCase()];
+            if (value === undefined) throw new Error(`"${text}" is not an option of ${column}`);
+            return value;
+        });
+    }
+
+    // Empty for columns that are not Choice columns; a failed lookup is retried on the next write-back
+    private getOptionValues(entityType: string, column: string): Promise<Record<string, number>> {
+        const key = `${entityType}.${column}`;
+        if (!this._optionValues[key]) {
+            this._optionValues[key] = this._context.utils.getEntityMetadata(entityType, [column])
+                .then(metadata => {
+                    const options: ComponentFramework.PropertyHelper.OptionMetadata[] = metadata.Attributes?.get?.(column)?.attributeDescriptor?.OptionSet || [];
+                    const values: Record<string, number> = {};
+                    options.forEach(option => values[option.Label.toLowerCase()] = option.Value);
+                    return values;
+                })
+                .catch(error => {
+                    delete this._optionValues[key];
+                    throw error;
+                });
+        }
+        return this._optionValues[key];
+    }
+
+    private completeWriteBack(taskId: string): void {
+        this.confirmPendingMove(taskId);
+        // Reload so the dataset catches up with the optimistic status
+        this._context.parameters.taskDataSet.refresh();
+    }
+
+    /**
+     * Tracks a move until the data source shows the new values, the app confirms it through
+     * moveAcknowledgement, or it is rejected or times out and gets reverted. Consecutive moves of the
+     * same card keep the original rollback, so a revert returns the card to where it was last saved.
+     */
+    private startPendingMove(taskId: string, rollback: MoveRollback): void {
+        if (this._dataSource !== 'dataset') return;
+
+        const existing = this._pendingMoves[taskId];
+        if (existing?.timer) window.clearTimeout(existing.timer);
+
+        const pending: PendingMove = {
+            moveId: `move_${Date.now()}_${++this._moveCounter}`,
+            taskId,
+            rollback: existing?.rollback ?? rollback,
+            startedAt: Date.now()
+        };
+
+        const timeoutSeconds = this._context.parameters.moveTimeout?.raw ?? 30;
+        if (timeoutSeconds > 0) {
+            pending.timer = window.setTimeout(() => {
+                this.failPendingMove(taskId, 'timeout', `Save timed out after ${timeoutSeconds} s`);
+            }, timeoutSeconds * 1000);
+        }
+        this._pendingMoves[taskId] = pending;
+    }
+
+    private confirmPendingMove(taskId: string): void {
+        const pending = this._pendingMoves[taskId];
+        if (!pending) return;
+
+        if (pending.timer) window.clearTimeout(pending.timer);
+        delete this._pendingMoves[taskId];
+
+        if (this._diagnostics.moveFailure || this._diagnostics.writeBackError) {
+            this._diagnostics.moveFailure = null;
+            this._diagnostics.writeBackError = null;
+            this.publishDiagnostics();
+        }
+    }
+
+    private failPendingMove(taskId: string, reason: MoveFailureReason, message: string): void {
+        const pending = this._pendingMoves[taskId];
+        if (!pending) return;
+
+        if (pending.timer) window.clearTimeout(pending.timer);
+        delete this._pendingMoves[taskId];
+        console.warn("Move reverted:", pending.moveId, reason, message);
+
+        const task = this._boardData.tasks[taskId];
+        const timestamp = new Date().toISOString();
+        this._diagnostics.moveFailure = {
+            moveId: pending.moveId,
+            taskId: task?.recordId || taskId,
+            reason,
+            message,
+            timestamp
+        };
+        if (reason === 'writeBack') {
+            this._diagnostics.writeBackError = { taskId: task?.recordId || taskId, message, timestamp };
+        }
+        this.rollbackMove(taskId, pending.rollback, message);
+    }
+
+    /**
+     * Reads the moveAcknowledgement input: either a JSON object
+     * {"moveId": "...", "status": "confirmed" | "rejected", "message": "..."} or just a moveId to confirm.
+     */
+    private processMoveAcknowledgement(): void {
+        const raw = this._context.parameters.moveAcknowledgement?.raw?.trim() || '';
+        if (!raw || raw === this._lastAcknowledgement) return;
+        this._lastAcknowledgement = raw;
+
+        let moveId = raw;
+        let status = 'confirmed';
+        let message = '';
+        if (raw.startsWith('{')) {
+            try {
+                const ack = JSON.parse(raw) as { moveId?: string; status?: string; message?: string };
+                moveId = String(ack.moveId ?? '');
+                status = String(ack.status ?? 'confirmed').toLowerCase();
+                message = ack.message ? String(ack.message) : '';
+            } catch (e) {
+                console.error("Invalid moveAcknowledgement JSON:", e);
+                return;
+            }
+        }
+
+        // Acknowledgements of unknown or already finished moves are ignored
+        const pending = Object.values(this._pendingMoves).find(move => move.moveId === moveId);
+        if (!pending) return;
+
+        if (status === 'rejected') {
+            this.failPendingMove(pending.taskId, 'rejected', message || 'The move was rejected');
+        } else {
+            this.confirmPendingMove(pending.taskId);
+        }
+    }
+
+    /**
+     * Reads outputMode, outputAcknowledgement (the sequence of the last boardDelta the app processed)
+     * and snapshotRequest (any new value puts the whole board into updatedTasksData once).
+     */
+    private updateOutputMode(): void {
+        const mode: OutputMode = this._context.parameters.outputMode?.raw === 'Delta' ? 'Delta' : 'Full';
+        if (mode !== this._outputMode) {
+            this._outputMode = mode;
+            // Changes are only tracked in Delta mode, start over from the whole board
+            this.resetBoardDelta();
+            this._notifyOutputChanged();
+        }
+
+        const ack = this._context.parameters.outputAcknowledgement?.raw?.trim() || '';
+        if (ack && ack !== this._outputAcknowledgementInput) {
+            this._outputAcknowledgementInput = ack;
+            const sequence = parseInt(ack, 10);
+            // Acknowledgements of unknown or outdated sequences are ignored
+            const sent = this._sentOutputs.find(output => output.sequence === sequence);
+            if (sent) {
+                this._acknowledgedSequence = sequence;
+                this._sentOutputs = this._sentOutputs.filter(output => output.sequence > sequence);
+            }
+        }
+
+        const snapshot = this._context.parameters.snapshotRequest?.raw?.trim() || '';
+        if (snapshot !== this._snapshotRequestInput) {
+            this._snapshotRequestInput = snapshot;
+            if (snapshot) {
+                this._snapshotPending = true;
+                this._notifyOutputChanged();
+            }
+        }
+    }
+
+    private rollbackMove(taskId: string, rollback: MoveRollback, message: string): void {
+        // Look the task up again, the board may have been reloaded while the request was running
+        const task = this._boardData.tasks[taskId];
+        this._moveErrors[taskId] = message;
+
+        if (task) {
+            task.status = rollback.previousStatus;
+            task.isOptimistic = false;
+
+            if (rollback.laneField) {
+                this.setTaskFieldValue(task, rollback.laneField, rollback.previousLaneValue || '');
+                if (task.optimisticFields) {
+                    delete task.optimisticFields[rollback.laneField];
+                    if (Object.keys(task.optimisticFields).length === 0) delete task.optimisticFields;
+                }
+            }
+
+            this._boardData.columnOrder.forEach(columnId => {
+                const taskIds = this._boardData.columns[columnId].taskIds;
+                const index = taskIds.indexOf(taskId);
+                if (index > -1) {
+                    taskIds.splice(index, 1);
+                    this.markColumnsChanged([columnId]);
+                }
+            });
+
+            const columnId = this._boardData.columns[rollback.sourceColumnId]
+                ? rollback.sourceColumnId
+                : this.getColumnIdByStatus(task.status) || this._boardData.columnOrder[0];
+            const column = this._boardData.columns[columnId];
+            if (column) {
+                const index = rollback.sourceIndex > -1 ? Math.min(rollback.sourceIndex, column.taskIds.length) : column.taskIds.length;
+                column.taskIds.splice(index, 0, taskId);
+                this.markColumnsChanged([columnId]);
+            }
+            this.markTasksChanged([taskId]);
+        }
+
+        // The move never happened as far as the data source is concerned
+        if (this._lastUpdatedTask === taskId) {
+            this._lastUpdatedTask = null;
+        }
+
+        this.renderBoard();
+        this.evaluateWipLimits();
+        this.publishDiagnostics();
+        this._notifyOutputChanged();
+    }
+
+    /**
+     * Gives the moved task a rank between its neighbours. When a neighbour has no rank or there is
+     * no room left between them, the whole column is renumbered in steps of 1000.
+     */
+    private updateRanks(column: Column, taskId: string): ReorderInfo {
+        const step = 1000;
+        const index = column.taskIds.indexOf(taskId);
+        const task = this._boardData.tasks[taskId];
+        const prev = index > 0 ? this._boardData.tasks[column.taskIds[index - 1]] : null;
+        const next = index < column.taskIds.length - 1 ? this._boardData.tasks[column.taskIds[index + 1]] : null;
+        const changed: Task[] = [];
+
+        let rank: number | undefined;
+        if (prev && next) {
+            if (prev.rank !== undefined && next.rank !== undefined) rank = (prev.rank + next.rank) / 2;
+        } else if (prev) {
+            if (prev.rank !== undefined) rank = prev.rank + step;
+        } else if (next) {
+            if (next.rank !== undefined) rank = next.rank - step;
+        } else {
+            rank = step;
+        }
+
+        const fitsBetween = rank !== undefined
+            && (!prev || rank > prev.rank!)
+            && (!next || rank < next.rank!);
+
+        if (fitsBetween) {
+            task.rank = rank;
+            changed.push(task);
+        } else {
+            column.taskIds.forEach((id, i) => {
+                const t = this._boardData.tasks[id];
+                if (t && t.rank !== (i + 1) * step) {
+                    t.rank = (i + 1) * step;
+                    changed.push(t);
+                }
+            });
+        }
+
+        // Keep the new ranks until the dataset reflects them
+        changed.forEach(t => {
+            t.optimisticFields = { ...t.optimisticFields, sortorder: String(t.rank) };
+        });
+        this.markTasksChanged(changed.map(t => t.id));
+
+        return {
+            columnId: column.id,
+            status: column.statusValues[0] || column.title,
+            taskId: task.recordId || task.id,
+            newIndex: index,
+            newRank: task.rank!,
+            orderedTaskIds: column.taskIds.map(id => this._boardData.tasks[id]?.recordId || id),
+            rankUpdates: changed.map(t => ({ taskId: t.recordId || t.id, rank: t.rank! })),
+            timestamp: new Date().toISOString()
+        };
+    }
+
+    private markTasksChanged(taskIds: string[]): void {
+        taskIds.forEach(id => this._dirtyTaskIds.add(id));
+    }
+
+    private markColumnsChanged(columnIds: string[]): void {
+        columnIds.forEach(id => this._dirtyColumnIds.add(id));
+    }
+
+    private resetBoardDelta(): void {
+        this._dirtyTaskIds.clear();
+        this._dirtyColumnIds.clear();
+        this._columnOrderDirty = false;
+        this._acknowledgedSequence = 0;
+        this._sentOutputs = [];
+        this._boardDeltaOutput = '';
+    }
 
-        const taskIndex = sourceColumn.taskIds.indexOf(taskId);
-        if (taskIndex > -1) {
-            sourceColumn.taskIds.splice(taskIndex, 1);
+    /**
+     * Marks what a reload changed. The data source only hands over the whole record set, so in
+     * Delta mode the new board is compared with the previous one here, once per reload.
+     */
+    private trackBoardChanges(previous: BoardData): void {
+        if (this._outputMode !== 'Delta') return;
+        const board = this._boardData;
+
+        this.markTasksChanged(Object.keys(board.tasks).filter(id => !this.isSameRecord(board.tasks[id], previous.tasks[id])));
+        this.markTasksChanged(Object.keys(previous.tasks).filter(id => !board.tasks[id]));
+        this.markColumnsChanged(Object.keys(board.columns).filter(id => {
+            const column = board.columns[id];
+            const before = previous.columns[id];
+            return !before || column.title !== before.title || column.taskIds.join('\u0000') !== before.taskIds.join('\u0000');
+        }));
+        this.markColumnsChanged(Object.keys(previous.columns).filter(id => !board.columns[id]));
+        if (board.columnOrder.join('\u0000') !== previous.columnOrder.join('\u0000')) {
+            this._columnOrderDirty = true;
         }
-        targetColumn.taskIds.push(taskId);
+    }
+
+    // Shallow comparison; nested objects such as fields are compared the same way
+    private isSameRecord(a: object | undefined, b: object | undefined): boolean {
+        if (a === b) return true;
+        if (!a || !b) return false;
+        const first = a as Record<string, unknown>;
+        const second = b as Record<string, unknown>;
+        const keys = Object.keys(first);
+        return keys.length === Object.keys(second).length && keys.every(key => first[key] === second[key]
+            || (typeof first[key] === 'object' && typeof second[key] === 'object' && this.isSameRecord(first[key] as object, second[key] as object)));
+    }
 
-        task.status = targetColumn.statusValues[0] || targetColumn.title;
+    /**
+     * Changes since the acknowledged sequence: the ids marked since the last delta plus those of every
+     * delta sent after the acknowledged one. A new sequence only starts when something was marked.
+     */
+    private getBoardDeltaOutput(): string {
+        const marked = this._dirtyTaskIds.size > 0 || this._dirtyColumnIds.size > 0 || this._columnOrderDirty;
+        if (!marked && this._boardDeltaOutput) return this._boardDeltaOutput;
+
+        const step: SentDelta = {
+            sequence: ++this._outputSequence,
+            taskIds: Array.from(this._dirtyTaskIds),
+            columnIds: Array.from(this._dirtyColumnIds),
+            columnOrder: this._columnOrderDirty
+        };
+        this._dirtyTaskIds.clear();
+        this._dirtyColumnIds.clear();
+        this._columnOrderDirty = false;
+
+        this._sentOutputs.push(step);
+        if (this._sentOutputs.length > UNACKNOWLEDGED_OUTPUT_LIMIT) {
+            // The app is too far behind, send the whole board again
+            this._acknowledgedSequence = 0;
+            this._sentOutputs = [step];
+        }
 
-        // OPTIMISTIC UPDATE:
-        // Mark this task as having a "pending" status so consecutive updates don't revert it
-        // until we get a confirmation (or we just trust the UI state for a bit)
-        task.isOptimistic = true;
+        const board = this._boardData;
+        const whole = this._acknowledgedSequence === 0;
+        const taskIds = new Set<string>(whole ? Object.keys(board.tasks) : []);
+        const columnIds = new Set<string>(whole ? Object.keys(board.columns) : []);
+        let orderChanged = whole;
+        if (!whole) {
+            this._sentOutputs.forEach(sent => {
+                sent.taskIds.forEach(id => taskIds.add(id));
+                sent.columnIds.forEach(id => columnIds.add(id));
+                orderChanged = orderChanged || sent.columnOrder;
+            });
+        }
 
-        this.renderBoard();
+        const delta: BoardDelta = {
+            sequence: step.sequence,
+            baseSequence: this._acknowledgedSequence,
+            changedTasks: Array.from(taskIds).filter(id => !!board.tasks[id]).map(id => board.tasks[id]),
+            removedTaskIds: Array.from(taskIds).filter(id => !board.tasks[id]),
+            columns: Array.from(columnIds).filter(id => !!board.columns[id]).map(id => ({
+                columnId: id,
+                title: board.columns[id].title,
+                taskIds: board.columns[id].taskIds
+            })),
+            removedColumnIds: Array.from(columnIds).filter(id => !board.columns[id]),
+            columnOrder: orderChanged ? board.columnOrder : null,
+            timestamp: new Date().toISOString()
+        };
+        this._boardDeltaOutput = JSON.stringify(delta);
+        return this._boardDeltaOutput;
+    }
 
-        // Prepare Output to trigger Power Apps OnChange
-        this._lastUpdatedTask = taskId;
-        this._pendingUpdate = true;
-        this._notifyOutputChanged();
+    private getOutputStatsKey(stats: OutputStats): string {
+        return JSON.stringify([stats.mode, stats.sizes, stats.sequence, stats.acknowledgedSequence]);
     }
 
     public getOutputs(): IOutputs {
+        const startedAt = performance.now();
         const lastMovedTask = this._lastUpdatedTask ? this._boardData.tasks[this._lastUpdatedTask] : null;
+        const delta = this._outputMode === 'Delta';
+        const snapshot = !delta || this._snapshotPending;
+        this._snapshotPending = false;
 
         // Use a robust output object matching what typical Canvas Apps expect
-        return {
-            updatedTasksData: JSON.stringify(this._boardData),
+        const outputs: IOutputs = {
+            updatedTasksData: snapshot ? JSON.stringify(this._boardData) : "",
+            boardDelta: delta ? this.getBoardDeltaOutput() : "",
             lastMovedTask: lastMovedTask ? JSON.stringify({
                 taskId: lastMovedTask.recordId || lastMovedTask.id, // Prefer recordId for Patch
                 newStatus: lastMovedTask.status,
-                previousStatus: this._sourceColumnId ? this._boardData.columns[this._sourceColumnId].title : "",
+                previousStatus: this._lastMovePreviousStatus,
                 title: lastMovedTask.title,
+                ...(this._lastLaneChange ? {
+                    laneField: this._lastLaneChange.field,
+                    previousLaneValue: this._lastLaneChange.previousValue,
+                    newLaneValue: this._lastLaneChange.newValue
+                } : {}),
+                newRank: lastMovedTask.rank ?? null,
+                moveId: this._pendingMoves[lastMovedTask.id]?.moveId ?? null,
+                // The control saves the status and lane itself, OnChange must not Patch them again
+                directWriteBack: this.isDirectWriteBackEnabled(),
                 timestamp: new Date().toISOString()
-            }) : ""
+            }) : "",
+            lastReorder: this._lastReorder ? JSON.stringify(this._lastReorder) : "",
+            columnConfiguration: this._columnConfigOutput,
+            wipLimitEvent: this._lastWipEvent ? JSON.stringify(this._lastWipEvent) : "",
+            // Output statistics lag one output behind, the current one is still being built
+            diagnostics: this._outputStats
+                ? JSON.stringify({ ...this._diagnostics, output: this._outputStats })
+                : this._diagnosticsOutput,
+            taskCreated: this._lastCreatedTask ? JSON.stringify(this._lastCreatedTask) : "",
+            batchMove: this._lastBatchMove ? JSON.stringify(this._lastBatchMove) : "",
+            historyEvent: this._lastHistoryEvent ? JSON.stringify(this._lastHistoryEvent) : "",
+            rejectedMove: this._lastRejectedMove ? JSON.stringify(this._lastRejectedMove) : "",
+            boardEvent: this._lastBoardEvent ? JSON.stringify(this._lastBoardEvent) : "",
+            triggerUpdate: this._triggerUpdate,
+            filterState: JSON.stringify(this._filter),
+            editedTask: this._lastEditedTask ? JSON.stringify(this._lastEditedTask) : "",
+            shareRequested: this._lastShareRequest ? JSON.stringify(this._lastShareRequest) : ""
+        };
+
+        const sizes: Record<string, number> = {};
+        Object.entries(outputs).forEach(([name, value]) => {
+            if (typeof value === 'string' && value.length > 0) sizes[name] = value.length;
+        });
+        const stats: OutputStats = {
+            mode: this._outputMode,
+            totalSize: Object.values(sizes).reduce((sum, size) => sum + size, 0),
+            sizes,
+            durationMs: Math.round((performance.now() - startedAt) * 10) / 10,
+            sequence: this._outputSequence,
+            acknowledgedSequence: this._acknowledgedSequence,
+            timestamp: new Date().toISOString()
         };
+        // The timing differs on every call; only publish it with a change in size or sequence, or diagnostics would never settle
+        if (!this._outputStats || this.getOutputStatsKey(stats) !== this.getOutputStatsKey(this._outputStats)) {
+            this._outputStats = stats;
+        }
+        return outputs;
     }
 
     private hexToRgba(hex: string, alpha: number): string {
@@ -1683,19 +5784,32 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
         return `rgba(${r}, ${g}, ${b}, ${alpha})`;
     }
 
+    // Relative ("Tomorrow", "In 3 days") within a week when dueDateFormat is Relative, otherwise the user's short date format
     private formatDate(date: Date): string {
         if (!date) return '';
-        const now = new Date();
-        const taskDate = new Date(date);
-        const diffDays = Math.floor((taskDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+        const locale = navigator.language || 'en-US';
+        const diffDays = this.getDaysUntil(date);
+
+        if (this._context.parameters.dueDateFormat?.raw !== 'Absolute' && Math.abs(diffDays) <= 7) {
+            const relative = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' }).format(diffDays, 'day');
+            return relative.charAt(0).toLocaleUpperCase(locale) + relative.slice(1);
+        }
+        return this.formatAbsoluteDate(date);
+    }
 
-        if (diffDays === 0) return 'Today';
-        if (diffDays === 1) return 'Tomorrow';
-        return taskDate.toLocaleDateString();
+    private formatAbsoluteDate(date: Date): string {
+        try {
+            return this._context.formatting.formatDateShort(date);
+        } catch (e) {
+            return date.toLocaleDateString(navigator.language || 'en-US');
+        }
     }
 
     private applyCustomStyles(): void {
+        // The stylesheet only depends on the configuration; rewriting it restyles the whole page
+        const styleKey = this.getStyleKey();
         let styleElement = document.getElementById('kanban-custom-styles');
+        if (styleElement && styleKey === this._appliedStyleKey) return;
         if (!styleElement) {
             styleElement = document.createElement('style');
             styleElement.id = 'kanban-custom-styles';
@@ -1812,6 +5926,430 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
             .kanban-column-header {
                 border-radius: ${this._radiusConfig.column}px ${this._radiusConfig.column}px 0 0 !important;
             }
+
+            /* Search and filter toolbar */
+            .kanban-toolbar {
+                display: flex;
+                flex-wrap: wrap;
+                align-items: center;
+                gap: 8px 16px;
+                padding: 10px ${this._layoutConfig.columnSpacing}px 0 ${this._layoutConfig.columnSpacing}px;
+                font-size: ${Math.max(10, this._styleConfig.fontSize - 2)}px;
+                flex-shrink: 0;
+            }
+            .kanban-toolbar-search {
+                width: 220px;
+                padding: 6px 10px;
+                border: 1px solid #e5e7eb;
+                border-radius: 8px;
+                font-family: inherit;
+                font-size: ${this._styleConfig.fontSize}px;
+                color: ${this._styleConfig.textColor};
+                background-color: ${this._styleConfig.cardBackgroundColor};
+            }
+            .kanban-toolbar-search:focus {
+                outline: none;
+                border-color: ${this._styleConfig.primaryColor};
+                box-shadow: 0 0 0 2px ${this.hexToRgba(this._styleConfig.primaryColor, 0.1)};
+            }
+            .kanban-chip-group {
+                display: flex;
+                align-items: center;
+                gap: 4px;
+                max-width: 100%;
+                overflow-x: auto;
+            }
+            .kanban-chip-group-label {
+                margin-right: 4px;
+                color: ${this._styleConfig.secondaryTextColor};
+                font-weight: 600;
+            }
+            .kanban-chip {
+                padding: 3px 10px;
+                border: 1px solid #e5e7eb;
+                border-radius: 999px;
+                background-color: ${this._styleConfig.cardBackgroundColor};
+                color: ${this._styleConfig.textColor};
+                font-family: inherit;
+                font-size: inherit;
+                white-space: nowrap;
+                cursor: pointer;
+            }
+            .kanban-chip.active {
+                border-color: ${this._styleConfig.primaryColor};
+                background-color: ${this.hexToRgba(this._styleConfig.primaryColor, 0.1)};
+                color: ${this._styleConfig.primaryColor};
+                font-weight: 600;
+            }
+            .kanban-toolbar-clear {
+                border: none;
+                background: none;
+                color: ${this._styleConfig.primaryColor};
+                font-family: inherit;
+                font-size: inherit;
+                text-decoration: underline;
+                cursor: pointer;
+            }
+
+            .kanban-board-container:focus {
+                outline: none;
+            }
+            .kanban-toolbar-history {
+                display: flex;
+                gap: 4px;
+                margin-left: auto;
+            }
+            .kanban-history-btn {
+                width: 28px;
+                height: 28px;
+                padding: 0;
+                border: 1px solid #D1D5DB;
+                border-radius: 6px;
+                background-color: ${this._styleConfig.cardBackgroundColor};
+                color: ${this._styleConfig.textColor};
+                font-size: 16px;
+                line-height: 26px;
+                cursor: pointer;
+            }
+            .kanban-history-btn:hover:not(:disabled) {
+                border-color: ${this._styleConfig.primaryColor};
+                color: ${this._styleConfig.primaryColor};
+            }
+            .kanban-history-btn:disabled {
+                cursor: default;
+                opacity: 0.4;
+            }
+
+            /* Paging */
+            .kanban-paging-status {
+                display: flex;
+                align-items: center;
+                gap: 12px;
+                padding: 8px ${this._layoutConfig.columnSpacing}px 0 ${this._layoutConfig.columnSpacing}px;
+                font-size: ${Math.max(10, this._styleConfig.fontSize - 2)}px;
+                flex-shrink: 0;
+            }
+            .kanban-load-more {
+                padding: 6px 12px;
+                border: 1px dashed ${this.hexToRgba(this._styleConfig.primaryColor, 0.5)};
+                border-radius: 8px;
+                background-color: transparent;
+                color: ${this._styleConfig.primaryColor};
+                font-family: inherit;
+                font-size: ${Math.max(10, this._styleConfig.fontSize - 2)}px;
+                font-weight: 600;
+                cursor: pointer;
+                flex-shrink: 0;
+            }
+            .kanban-load-more:hover:not(:disabled) {
+                background-color: ${this.hexToRgba(this._styleConfig.primaryColor, 0.08)};
+            }
+            .kanban-load-more:disabled {
+                cursor: default;
+                opacity: 0.6;
+            }
+
+            /* Insertion point while dragging */
+            .kanban-drop-indicator {
+                height: 4px;
+                margin: 2px 0 ${Math.max(2, this._layoutConfig.cardSpacing - 2)}px 0;
+                border-radius: 2px;
+                background-color: ${this._styleConfig.primaryColor};
+                box-shadow: 0 0 0 2px ${this.hexToRgba(this._styleConfig.primaryColor, 0.2)};
+                flex-shrink: 0;
+                pointer-events: none;
+            }
+
+            /* WIP limits */
+            .kanban-column-count.wip-at-limit {
+                background-color: #fef3c7 !important;
+                color: #b45309 !important;
+            }
+            .kanban-column-count.wip-exceeded {
+                background-color: #fee2e2 !important;
+                color: #b91c1c !important;
+            }
+            .kanban-column-count.wip-below-min {
+                background-color: #e0f2fe !important;
+                color: #0369a1 !important;
+            }
+            .kanban-column.kanban-column-wip-exceeded {
+                border-color: #f87171 !important;
+            }
+            .kanban-column.kanban-drop-refused {
+                border-color: #dc2626 !important;
+                box-shadow: 0 0 0 2px rgba(220, 38, 38, 0.3) !important;
+            }
+            .kanban-drop-feedback {
+                position: absolute;
+                left: 8px;
+                right: 8px;
+                top: 52px;
+                z-index: 20;
+                padding: 8px 12px;
+                border-radius: 8px;
+                background-color: #b91c1c;
+                color: #ffffff;
+                font-size: 12px;
+                font-weight: 600;
+                box-shadow: 0 4px 6px rgba(0, 0, 0, 0.15);
+                pointer-events: none;
+            }
+
+            /* Swimlanes */
+            .kanban-swimlane {
+                display: flex;
+                flex-direction: column;
+                gap: 8px;
+            }
+            .kanban-swimlane-header {
+                padding: 6px 4px;
+                font-weight: 600;
+                font-size: ${this._styleConfig.fontSize}px;
+                border-bottom: 1px solid ${this.hexToRgba(this._styleConfig.primaryColor, 0.2)};
+                user-select: none;
+            }
+            .kanban-swimlane-caret {
+                width: 12px;
+                display: inline-block;
+            }
+            .kanban-swimlane-count {
+                font-size: ${Math.max(10, this._styleConfig.fontSize - 2)}px;
+                font-weight: 500;
+                padding: 2px 8px;
+                border-radius: 12px;
+            }
+            .kanban-lane-header-row .kanban-column,
+            .kanban-lane-cell {
+                min-height: 0 !important;
+            }
+
+            /* Unmapped column - tasks whose status matches no column */
+            .kanban-column.kanban-column-unmapped {
+                background-color: #fffbeb !important;
+                border: 2px dashed #f59e0b !important;
+            }
+            .kanban-column-unmapped .kanban-column-header h3 {
+                color: #b45309 !important;
+            }
+            .unmapped-status-badge {
+                margin: 0 20px 12px 20px;
+                padding: 4px 10px;
+                border-radius: 6px;
+                background-color: #fef3c7;
+                color: #92400e;
+                font-size: 12px;
+                font-weight: 600;
+                overflow: hidden;
+                text-overflow: ellipsis;
+                white-space: nowrap;
+            }
+            
+            /* Column layout */
+            .kanban-column-collapse-btn {
+                width: 24px;
+                height: 24px;
+                padding: 0;
+                border: none;
+                border-radius: 6px;
+                background: transparent;
+                color: ${this._styleConfig.secondaryTextColor};
+                font-size: 16px;
+                line-height: 24px;
+                cursor: pointer;
+                flex-shrink: 0;
+            }
+            .kanban-column-collapse-btn:hover {
+                background-color: ${this.hexToRgba(this._styleConfig.primaryColor, 0.1)};
+                color: ${this._styleConfig.primaryColor};
+            }
+            .kanban-column-header[tabindex] {
+                cursor: grab;
+            }
+            .kanban-column-header:focus-visible {
+                outline: 2px solid ${this._styleConfig.primaryColor};
+                outline-offset: -2px;
+            }
+            .kanban-column-header-collapsed {
+                display: flex;
+                flex-direction: column;
+                align-items: center;
+                gap: 8px;
+                padding: 8px 0;
+            }
+            .kanban-column-header-collapsed .kanban-column-count {
+                padding: 2px 6px;
+                border-radius: 12px;
+                font-size: ${Math.max(10, this._styleConfig.fontSize - 2)}px;
+                font-weight: 500;
+            }
+            .kanban-column-collapsed-title {
+                writing-mode: vertical-rl;
+                font-weight: 600;
+                white-space: nowrap;
+            }
+            .kanban-column-collapsed .kanban-collapsed-drop {
+                flex: 1;
+                min-height: 80px;
+            }
+            .kanban-column-disallowed {
+                opacity: 0.45;
+                filter: grayscale(1);
+                cursor: not-allowed;
+            }
+            .kanban-column-resize-handle {
+                position: absolute;
+                top: 0;
+                right: -${Math.ceil(this._layoutConfig.columnSpacing / 2) + 3}px;
+                width: 6px;
+                height: 100%;
+                cursor: col-resize;
+                touch-action: none;
+                z-index: 5;
+            }
+            .kanban-column-resize-handle:hover {
+                background-color: ${this.hexToRgba(this._styleConfig.primaryColor, 0.3)};
+            }
+            .kanban-column.kanban-column-dragging {
+                opacity: 0.5;
+            }
+            .kanban-column.kanban-column-drop-before {
+                box-shadow: -4px 0 0 0 ${this._styleConfig.primaryColor} !important;
+            }
+            .kanban-column.kanban-column-drop-after {
+                box-shadow: 4px 0 0 0 ${this._styleConfig.primaryColor} !important;
+            }
+
+            /* Multi-select */
+            .kanban-task-card.kanban-task-selected {
+                border-color: ${this._styleConfig.primaryColor} !important;
+                box-shadow: 0 0 0 2px ${this.hexToRgba(this._styleConfig.primaryColor, 0.35)} !important;
+            }
+            .kanban-selection-bar {
+                display: flex;
+                align-items: center;
+                gap: 12px;
+                margin: 8px ${this._layoutConfig.columnSpacing}px 0 ${this._layoutConfig.columnSpacing}px;
+                padding: 6px 12px;
+                border-radius: 8px;
+                background-color: ${this.hexToRgba(this._styleConfig.primaryColor, 0.08)};
+                font-size: ${Math.max(10, this._styleConfig.fontSize - 2)}px;
+                flex-shrink: 0;
+            }
+            .kanban-selection-count {
+                font-weight: 600;
+            }
+            .kanban-selection-move {
+                padding: 4px 8px;
+                border: 1px solid #D1D5DB;
+                border-radius: 6px;
+                font-family: inherit;
+                font-size: inherit;
+            }
+            .kanban-drag-count {
+                position: absolute;
+                top: 8px;
+                right: 8px;
+                min-width: 24px;
+                height: 24px;
+                padding: 0 6px;
+                border-radius: 12px;
+                background-color: ${this._styleConfig.primaryColor};
+                color: #FFFFFF;
+                font-size: 12px;
+                font-weight: 700;
+                line-height: 24px;
+                text-align: center;
+            }
+
+            /* Pointer drag engine */
+            .kanban-pointer-drag {
+                -webkit-touch-callout: none;
+                -webkit-user-select: none;
+                user-select: none;
+            }
+            .kanban-drag-preview {
+                position: fixed !important;
+                top: 0;
+                left: 0;
+                margin: 0 !important;
+                z-index: 10000;
+                pointer-events: none;
+                opacity: 0.9;
+                transition: none !important;
+                box-shadow: 0 20px 25px -5px rgba(0, 0, 0, 0.2) !important;
+            }
+
+            /* Keyboard moves */
+            .kanban-sr-only {
+                position: absolute !important;
+                width: 1px !important;
+                height: 1px !important;
+                padding: 0 !important;
+                margin: -1px !important;
+                overflow: hidden !important;
+                clip: rect(0, 0, 0, 0) !important;
+                white-space: nowrap !important;
+                border: 0 !important;
+            }
+            .kanban-task-card:focus-visible {
+                outline: 2px solid ${this._styleConfig.primaryColor};
+                outline-offset: 2px;
+            }
+            .kanban-task-card.kanban-task-grabbed {
+                outline: 2px dashed ${this._styleConfig.primaryColor};
+                outline-offset: 2px;
+                box-shadow: 0 10px 15px -3px rgba(0, 0, 0, 0.15) !important;
+            }
+
+            /* Due dates */
+            .task-subtitle.due-overdue {
+                color: #b91c1c !important;
+                font-weight: 600 !important;
+            }
+            .task-subtitle.due-soon {
+                color: #b45309 !important;
+                font-weight: 600 !important;
+            }
+            .kanban-task-card.kanban-task-overdue {
+                border-left: 4px solid #dc2626 !important;
+            }
+            .kanban-task-card.kanban-task-due-soon {
+                border-left: 4px solid #f59e0b !important;
+            }
+
+            .kanban-task-card.kanban-task-saving {
+                opacity: 0.75;
+            }
+            .move-saving-badge {
+                margin: 0 20px 12px 20px;
+                padding: 4px 10px;
+                border-radius: 6px;
+                background-color: ${this.hexToRgba(this._styleConfig.primaryColor, 0.1)};
+                color: ${this._styleConfig.primaryColor};
+                font-size: 12px;
+                font-weight: 600;
+                animation: kanban-saving-pulse 1.2s ease-in-out infinite;
+            }
+            @keyframes kanban-saving-pulse {
+                0%, 100% { opacity: 1; }
+                50% { opacity: 0.4; }
+            }
+            .kanban-task-card.kanban-task-failed {
+                border-color: #fca5a5 !important;
+            }
+            .move-error-badge {
+                margin: 0 20px 12px 20px;
+                padding: 4px 10px;
+                border-radius: 6px;
+                background-color: #fee2e2;
+                color: #991b1b;
+                font-size: 12px;
+                font-weight: 600;
+                overflow: hidden;
+                text-overflow: ellipsis;
+                white-space: nowrap;
+            }
             
             .kanban-tasks-container.drag-over {
                 background-color: ${this.hexToRgba(this._styleConfig.primaryColor, 0.1)} !important;
@@ -1850,30 +6388,194 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
             .kanban-board-container::-webkit-scrollbar-thumb:hover {
                 background: rgba(0,0,0,0.3);
             }
-            
-            .kanban-tasks-container::-webkit-scrollbar {
-                width: 6px;
+            
+            .kanban-tasks-container::-webkit-scrollbar {
+                width: 6px;
+            }
+            .kanban-tasks-container::-webkit-scrollbar-thumb {
+                background-color: rgba(0,0,0,0.1);
+                border-radius: 3px;
+            }
+
+            /* Responsive adjustments */
+            
+            /* Share Popup Styles - Enhanced Fluent UI */
+            .kanban-overlay {
+                /* Background and opacity handled dynamically in JS */
+                position: absolute;
+                top: 0;
+                left: 0;
+                width: 100%;
+                height: 100%;
+                z-index: 999;
+                display: flex;
+                align-items: center;
+                justify-content: center;
+                border-radius: ${this._radiusConfig.board}px;
+            }
+            .kanban-sort-control {
+                position: relative;
+                margin-left: auto;
+            }
+            .kanban-sort-btn {
+                width: 28px;
+                height: 28px;
+                border: none;
+                border-radius: 8px;
+                background-color: transparent;
+                color: ${this._styleConfig.secondaryTextColor};
+                font-size: 14px;
+                cursor: pointer;
+            }
+            .kanban-sort-btn:hover,
+            .kanban-sort-btn.active {
+                background-color: ${this.hexToRgba(this._styleConfig.primaryColor, 0.1)};
+                color: ${this._styleConfig.primaryColor};
+            }
+            .kanban-sort-menu {
+                position: absolute;
+                top: 32px;
+                right: 0;
+                z-index: 20;
+                display: flex;
+                flex-direction: column;
+                min-width: 200px;
+                padding: 4px;
+                border: 1px solid #e5e7eb;
+                border-radius: 8px;
+                background-color: ${this._styleConfig.cardBackgroundColor};
+                box-shadow: 0 10px 15px -3px rgba(0, 0, 0, 0.1);
+            }
+            .kanban-sort-option {
+                padding: 6px 10px;
+                border: none;
+                border-radius: 6px;
+                background: none;
+                color: ${this._styleConfig.textColor};
+                font-family: inherit;
+                font-size: ${Math.max(10, this._styleConfig.fontSize - 1)}px;
+                text-align: left;
+                cursor: pointer;
+            }
+            .kanban-sort-option:hover {
+                background-color: ${this.hexToRgba(this._styleConfig.primaryColor, 0.08)};
+            }
+            .kanban-sort-option.active {
+                color: ${this._styleConfig.primaryColor};
+                font-weight: 600;
+            }
+            .kanban-add-task-btn {
+                width: 28px;
+                height: 28px;
+                flex-shrink: 0;
+                border: none;
+                border-radius: 8px;
+                background-color: transparent;
+                color: ${this._styleConfig.secondaryTextColor};
+                font-size: 20px;
+                line-height: 1;
+                cursor: pointer;
+            }
+            .kanban-add-task-btn:hover {
+                background-color: ${this.hexToRgba(this._styleConfig.primaryColor, 0.1)};
+                color: ${this._styleConfig.primaryColor};
+            }
+            .kanban-quick-create {
+                display: flex;
+                flex-direction: column;
+                gap: 8px;
+                padding: 12px;
+                border: 1px solid ${this.hexToRgba(this._styleConfig.primaryColor, 0.4)};
+                border-radius: 16px;
+                background-color: ${this._styleConfig.cardBackgroundColor};
+                box-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.1);
+            }
+            .kanban-quick-create-details {
+                display: flex;
+                gap: 8px;
+            }
+            .kanban-quick-create .share-actions {
+                margin-top: 0;
+            }
+            .kanban-quick-create .action-btn {
+                padding: 6px 16px;
+            }
+            .task-detail-panel {
+                display: flex;
+                flex-direction: column;
+                gap: 12px;
+                width: 480px;
+                max-width: calc(100% - 32px);
+                max-height: calc(100% - 32px);
+                overflow-y: auto;
+                box-sizing: border-box;
+                padding: ${this._shareModalConfig.padding || 16}px;
+                background-color: ${this._shareModalConfig.backgroundColor || '#ffffff'} !important;
+                border: 1px solid rgba(0,0,0,0.1);
+                border-radius: ${this._shareModalConfig.borderRadius || 12}px;
+                box-shadow: ${this.getShadowValue(this._shareModalConfig.shadow || 'Medium', '')};
+                font-family: '${this._styleConfig.fontFamily}', sans-serif;
+                color: ${this._shareModalConfig.textColor || '#111827'};
+                cursor: default;
+                z-index: 1001;
+            }
+            .task-detail-header {
+                display: flex;
+                justify-content: space-between;
+                align-items: center;
+            }
+            .task-detail-status {
+                padding: 4px 12px;
+                border-radius: 999px;
+                background-color: ${this.hexToRgba(this._styleConfig.primaryColor, 0.1)};
+                color: ${this._styleConfig.primaryColor};
+                font-size: 12px;
+                font-weight: 600;
+            }
+            .task-detail-fields {
+                display: flex;
+                flex-direction: column;
+                gap: 12px;
+            }
+            .task-detail-field label {
+                display: block;
+                margin-bottom: 2px;
+                font-size: 11px;
+                font-weight: 600;
+                letter-spacing: 0.5px;
+                color: ${this._styleConfig.secondaryTextColor};
+            }
+            .task-detail-value {
+                font-size: ${this._shareModalConfig.fontSize || 14}px;
+                line-height: 1.5;
+                white-space: pre-wrap;
+                word-break: break-word;
             }
-            .kanban-tasks-container::-webkit-scrollbar-thumb {
-                background-color: rgba(0,0,0,0.1);
-                border-radius: 3px;
+            .task-detail-title {
+                font-size: ${(this._shareModalConfig.fontSize || 14) + 4}px;
+                font-weight: 700;
+                color: ${this._shareModalConfig.headerColor || '#111827'};
             }
-
-            /* Responsive adjustments */
-            
-            /* Share Popup Styles - Enhanced Fluent UI */
-            .kanban-overlay {
-                /* Background and opacity handled dynamically in JS */
-                position: absolute;
-                top: 0;
-                left: 0;
+            .task-detail-input {
                 width: 100%;
-                height: 100%;
-                z-index: 999;
-                display: flex;
-                align-items: center;
-                justify-content: center;
-                border-radius: ${this._radiusConfig.board}px;
+                box-sizing: border-box;
+                padding: 6px 8px;
+                border: 1px solid #e5e7eb;
+                border-radius: 6px;
+                font-family: inherit;
+                font-size: ${this._shareModalConfig.fontSize || 14}px;
+                color: inherit;
+                background-color: #f9fafb;
+            }
+            textarea.task-detail-input {
+                min-height: 100px;
+                resize: vertical;
+            }
+            .task-detail-input:focus {
+                outline: none;
+                border-color: ${this._styleConfig.primaryColor};
+                background-color: #ffffff;
+                box-shadow: 0 0 0 2px ${this.hexToRgba(this._styleConfig.primaryColor, 0.1)};
             }
             .share-btn {
                 width: 32px;
@@ -2138,9 +6840,403 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
         `;
 
         styleElement.textContent = customCSS;
+        this._appliedStyleKey = styleKey;
+    }
+
+    // Cards moved together with the given one: the whole selection when it is part of it
+    private getMoveGroup(taskId: string): string[] {
+        if (this._selection.length < 2 || !this._selection.includes(taskId)) return [taskId];
+        return this.getSelectedTaskIds();
+    }
+
+    // Selected cards still on the board, in board order
+    private getSelectedTaskIds(): string[] {
+        const selected = new Set(this._selection.filter(id => !!this._boardData.tasks[id] && !this._pendingCreates[id]));
+        return this._boardData.columnOrder
+            .reduce<string[]>((ids, columnId) => ids.concat(this._boardData.columns[columnId].taskIds), [])
+            .filter(id => selected.has(id));
+    }
+
+    // Ctrl/Cmd-click toggles a card, Shift-click selects the range of visible cards from the anchor
+    private updateSelection(taskId: string, mode: 'toggle' | 'range'): void {
+        const cards = Array.from(this._container.querySelectorAll<HTMLElement>('.kanban-tasks-container'))
+            .reduce<string[]>((ids, container) => ids.concat(this.getContainerTaskIds(container)), []);
+        const anchorIndex = this._selectionAnchor ? cards.indexOf(this._selectionAnchor) : -1;
+
+        if (mode === 'range' && anchorIndex > -1) {
+            const index = cards.indexOf(taskId);
+            this._selection = cards.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+                .filter(id => !this._pendingCreates[id]);
+        } else if (this._selection.includes(taskId)) {
+            this._selection = this._selection.filter(id => id !== taskId);
+            this._selectionAnchor = taskId;
+        } else {
+            this._selection = [...this._selection, taskId];
+            this._selectionAnchor = taskId;
+        }
+
+        this.renderBoard();
+        this.emitSelectEvent(null);
+        this.announce(`${this._selection.length} ${this._selection.length === 1 ? 'card' : 'cards'} selected`);
+    }
+
+    private clearSelection(): void {
+        this._selection = [];
+        this._selectionAnchor = null;
+        this.renderBoard();
+        this.emitSelectEvent(null);
+    }
+
+    private emitSelectEvent(openedTaskId: string | null): void {
+        const recordId = (taskId: string) => this._boardData.tasks[taskId]?.recordId || taskId;
+        this.emitBoardEvent('select', {
+            taskIds: this.getSelectedTaskIds().map(recordId),
+            openedTaskId: openedTaskId ? recordId(openedTaskId) : null
+        });
+        this._notifyOutputChanged();
+    }
+
+    private createSelectionBar(enableDragDrop: boolean): HTMLElement {
+        const bar = document.createElement('div');
+        bar.className = 'kanban-selection-bar';
+        bar.setAttribute('role', 'toolbar');
+        bar.setAttribute('aria-label', 'Selected cards');
+
+        const count = document.createElement('span');
+        count.className = 'kanban-selection-count';
+        count.textContent = `${this._selection.length} selected`;
+        bar.appendChild(count);
+
+        if (enableDragDrop) {
+            const moveTo = document.createElement('select');
+            moveTo.className = 'kanban-selection-move';
+            moveTo.setAttribute('aria-label', 'Move selected cards to column');
+            const placeholder = document.createElement('option');
+            placeholder.value = '';
+            placeholder.textContent = 'Move to…';
+            moveTo.appendChild(placeholder);
+            this._boardData.columnOrder
+                .map(id => this._boardData.columns[id])
+                .filter(column => !column.isUnmapped)
+                .forEach(column => {
+                    const option = document.createElement('option');
+                    option.value = column.id;
+                    option.textContent = column.title;
+                    option.disabled = this.getMoveRejection(this._selection[0], column)?.reason === 'transition';
+                    moveTo.appendChild(option);
+                });
+            moveTo.onchange = () => {
+                const column = this._boardData.columns[moveTo.value];
+                if (!column) return;
+                const group = this.getMoveGroup(this._selection[0]);
+                const rejection = this.getMoveRejection(this._selection[0], column);
+                if (rejection) {
+                    moveTo.value = '';
+                    this.announce(`${rejection.message}. The cards were not moved.`);
+                    this.rejectMove(this._selection[0], column, rejection, this.getTasksContainer(column.id));
+                    return;
+                }
+                this.moveTasks(group, column.id);
+                this.announce(`Moved ${group.length} cards to ${column.title}`);
+            };
+            bar.appendChild(moveTo);
+        }
+
+        const clear = document.createElement('button');
+        clear.className = 'kanban-toolbar-clear';
+        clear.textContent = 'Clear selection';
+        clear.onclick = () => this.clearSelection();
+        bar.appendChild(clear);
+
+        return bar;
+    }
+
+    private getLiveRegion(): HTMLElement {
+        if (!this._liveRegion) {
+            this._liveRegion = document.createElement('div');
+            this._liveRegion.className = 'kanban-sr-only';
+            this._liveRegion.setAttribute('role', 'status');
+            this._liveRegion.setAttribute('aria-live', 'assertive');
+            this._liveRegion.setAttribute('aria-atomic', 'true');
+        }
+        return this._liveRegion;
+    }
+
+    private announce(message: string): void {
+        const region = this.getLiveRegion();
+        // Clear first so repeating the same message is announced again
+        region.textContent = '';
+        setTimeout(() => region.textContent = message, 50);
+    }
+
+    private getCardElement(taskId: string): HTMLElement | null {
+        return Array.from(this._container.querySelectorAll<HTMLElement>('.kanban-task-card'))
+            .find(card => card.getAttribute('data-task-id') === taskId) || null;
+    }
+
+    private getTasksContainer(columnId: string, laneValue?: string): HTMLElement | null {
+        return Array.from(this._container.querySelectorAll<HTMLElement>('.kanban-tasks-container'))
+            .find(container => container.getAttribute('data-column-id') === columnId
+                && (laneValue === undefined || container.getAttribute('data-lane-value') === laneValue)) || null;
+    }
+
+    /**
+     * Arrow keys move the focus between cards. Space picks a card up, then the arrow keys choose the
+     * target column and position, Enter or Space drops it through moveTask() and Escape cancels.
+     */
+    private handleCardKeyDown(e: KeyboardEvent, taskId: string, enableDragDrop: boolean): void {
+        const card = e.currentTarget as HTMLElement;
+        const move = this._keyboardMove;
+
+        if (move && move.taskId === taskId) {
+            switch (e.key) {
+                case 'ArrowUp':
+                case 'ArrowDown':
+                    this.shiftKeyboardPosition(e.key === 'ArrowUp' ? -1 : 1);
+                    break;
+                case 'ArrowLeft':
+                case 'ArrowRight':
+                    this.shiftKeyboardColumn(e.key === 'ArrowLeft' ? -1 : 1);
+                    break;
+                case 'Enter':
+                case ' ':
+                    this.dropKeyboardMove();
+                    break;
+                case 'Escape':
+                case 'Tab':
+                    this.cancelKeyboardMove();
+                    if (e.key === 'Tab') return;
+                    break;
+                default:
+                    return;
+            }
+            e.preventDefault();
+            e.stopPropagation();
+            return;
+        }
+
+        switch (e.key) {
+            case ' ':
+                if (!enableDragDrop) return;
+                if (e.ctrlKey || e.metaKey || e.shiftKey) {
+                    this.updateSelection(taskId, e.shiftKey ? 'range' : 'toggle');
+                } else {
+                    this.startKeyboardMove(card, taskId);
+                }
+                break;
+            case 'Escape':
+                if (this._selection.length === 0) return;
+                this.clearSelection();
+                this.announce('Selection cleared');
+                break;
+            case 'Enter':
+                this.openTaskDetail(taskId);
+                break;
+            case 'ArrowUp':
+            case 'ArrowDown': {
+                const taskIds = this.getContainerTaskIds(card.parentElement as HTMLElement);
+                const siblingId = taskIds[taskIds.indexOf(taskId) + (e.key === 'ArrowUp' ? -1 : 1)];
+                if (siblingId) this.scrollToCard(siblingId)?.focus();
+                break;
+            }
+            case 'ArrowLeft':
+            case 'ArrowRight':
+                this.focusAdjacentColumn(card, e.key === 'ArrowLeft' ? -1 : 1);
+                break;
+            default:
+                return;
+        }
+        e.preventDefault();
+        e.stopPropagation();
+    }
+
+    private focusAdjacentColumn(card: HTMLElement, step: number): void {
+        const container = card.parentElement as HTMLElement;
+        const laneValue = container.getAttribute('data-lane-value') ?? undefined;
+        const index = this.getContainerTaskIds(container).indexOf(card.getAttribute('data-task-id') || '');
+
+        const columnIds = this._boardData.columnOrder;
+        let columnIndex = columnIds.indexOf(container.getAttribute('data-column-id') || '');
+        for (columnIndex += step; columnIndex >= 0 && columnIndex < columnIds.length; columnIndex += step) {
+            const target = this.getTasksContainer(columnIds[columnIndex], laneValue);
+            const targetIds = target ? this.getContainerTaskIds(target) : [];
+            if (targetIds.length > 0) {
+                this.scrollToCard(targetIds[Math.min(index, targetIds.length - 1)])?.focus();
+                return;
+            }
+        }
+    }
+
+    private startKeyboardMove(card: HTMLElement, taskId: string): void {
+        const container = card.parentElement as HTMLElement;
+        const columnId = container.getAttribute('data-column-id') || '';
+        const laneValue = container.getAttribute('data-lane-value') ?? undefined;
+        const taskIds = this.getContainerTaskIds(container);
+        const position = taskIds.indexOf(taskId);
+
+        this._keyboardMove = {
+            taskId,
+            sourceColumnId: columnId,
+            laneValue,
+            columnId,
+            position: position > -1 ? position : taskIds.length
+        };
+        card.classList.add('kanban-task-grabbed');
+        card.setAttribute('aria-pressed', 'true');
+        this.markDisallowedColumns(taskId);
+        this.showKeyboardTarget();
+
+        const task = this._boardData.tasks[taskId];
+        const count = this.getMoveGroup(taskId).length;
+        const subject = count > 1 ? `${count} selected cards` : `'${task.title}'`;
+        this.announce(`Picked up ${subject}. ${this.describeKeyboardTarget()}. Use the arrow keys to move, Enter to drop, Escape to cancel.`);
+    }
+
+    private shiftKeyboardPosition(step: number): void {
+        const move = this._keyboardMove!;
+        const container = this.getTasksContainer(move.columnId, move.laneValue);
+        const count = container ? this.getKeyboardCandidates(container, move.taskId).length : 0;
+        move.position = Math.max(0, Math.min(count, move.position + step));
+        this.showKeyboardTarget();
+        this.announce(this.describeKeyboardTarget());
+    }
+
+    private shiftKeyboardColumn(step: number): void {
+        const move = this._keyboardMove!;
+        const columnIds = this._boardData.columnOrder.filter(id => !this._boardData.columns[id].isUnmapped);
+        let index = columnIds.indexOf(move.columnId);
+
+        // Skip columns without a cell here (e.g. a collapsed lane)
+        for (index += step; index >= 0 && index < columnIds.length; index += step) {
+            const container = this.getTasksContainer(columnIds[index], move.laneValue);
+            if (container) {
+                move.columnId = columnIds[index];
+                move.position = Math.min(move.position, this.getKeyboardCandidates(container, move.taskId).length);
+                this.showKeyboardTarget();
+                this.announce(this.describeKeyboardTarget());
+                return;
+            }
+        }
+        this.announce(`No more columns. ${this.describeKeyboardTarget()}`);
+    }
+
+    private showKeyboardTarget(): void {
+        const move = this._keyboardMove;
+        const container = move ? this.getTasksContainer(move.columnId, move.laneValue) : null;
+        if (!move || !container) {
+            this.removeDropIndicator();
+            return;
+        }
+
+        this.getCardElement(move.taskId)?.classList.add('kanban-task-grabbed');
+        const column = this._boardData.columns[move.columnId];
+        if (this.isColumnSorted(column) || container.classList.contains('kanban-collapsed-drop')) {
+            this.removeDropIndicator();
+            return;
+        }
+
+        if (!this._dropIndicator) {
+            this._dropIndicator = document.createElement('div');
+            this._dropIndicator.className = 'kanban-drop-indicator';
+        }
+        const candidates = this.getKeyboardCandidates(container, move.taskId);
+        container.insertBefore(this._dropIndicator, this.getKeyboardInsertionPoint(candidates, move.position));
+    }
+
+    // Card ids of the target cell without the moved card; positions count these, rendered or not
+    private getKeyboardCandidates(container: HTMLElement, taskId: string): string[] {
+        return this.getContainerTaskIds(container).filter(id => id !== taskId);
+    }
+
+    // Element the indicator goes in front of for a keyboard position, scrolling an off-screen card in first
+    private getKeyboardInsertionPoint(candidates: string[], position: number): HTMLElement | null {
+        if (position < candidates.length) return this.scrollToCard(candidates[position]);
+        const last = candidates.length > 0 ? this.scrollToCard(candidates[candidates.length - 1]) : null;
+        return last?.nextElementSibling as HTMLElement | null ?? null;
+    }
+
+    private describeKeyboardTarget(): string {
+        const move = this._keyboardMove!;
+        const column = this._boardData.columns[move.columnId];
+        const container = this.getTasksContainer(move.columnId, move.laneValue);
+        const count = container ? this.getKeyboardCandidates(container, move.taskId).length + 1 : 1;
+
+        let description = this.isColumnSorted(column)
+            ? `${column.title}, sorted column`
+            : `${column.title}, position ${move.position + 1} of ${count}`;
+        if (move.laneValue !== undefined) description += `, lane ${move.laneValue || '(empty)'}`;
+        const rejection = container ? this.getDropRejection(container, move.taskId) : null;
+        if (rejection) description += rejection.reason === 'transition' ? ', not allowed' : ', WIP limit reached';
+        return description;
+    }
+
+    private dropKeyboardMove(): void {
+        const move = this._keyboardMove!;
+        const task = this._boardData.tasks[move.taskId];
+        const column = this._boardData.columns[move.columnId];
+        const container = this.getTasksContainer(move.columnId, move.laneValue);
+        this._keyboardMove = null;
+        this.removeDropIndicator();
+
+        if (!task || !column || !container) {
+            this.renderBoard();
+            return;
+        }
+
+        // Same transition and hard WIP rules as a mouse drop
+        const rejection = this.getDropRejection(container, move.taskId);
+        if (rejection) {
+            this.renderBoard();
+            this.rejectMove(move.taskId, column, rejection, this.getTasksContainer(move.columnId, move.laneValue) || container);
+            this.announce(`${rejection.message}. '${task.title}' was not moved.`);
+            return;
+        }
+
+        const candidates = this.getKeyboardCandidates(container, move.taskId);
+        const index = this.getInsertIndex(column, move.taskId, candidates, candidates[move.position] ?? null);
+        const group = this.getMoveGroup(move.taskId);
+
+        if (group.length > 1) {
+            this.moveTasks(group, move.columnId, { laneValue: move.laneValue, index });
+            this.announce(`Moved ${group.length} cards to ${column.title}`);
+            return;
+        }
+        this.moveTask(move.taskId, move.sourceColumnId, move.columnId, { laneValue: move.laneValue, index });
+        // moveTask() only re-renders when something changed
+        if (this.getCardElement(move.taskId)?.classList.contains('kanban-task-grabbed')) {
+            this.renderBoard();
+        }
+
+        // Read the final position from the board, a sorted column may have placed it elsewhere
+        const card = this.getCardElement(move.taskId);
+        const finalCards = card?.parentElement ? this.getContainerTaskIds(card.parentElement) : [];
+        const position = card ? finalCards.indexOf(move.taskId) + 1 : move.position + 1;
+        this.announce(`Moved '${task.title}' to ${column.title}, position ${position} of ${finalCards.length || 1}`);
+    }
+
+    private cancelKeyboardMove(): void {
+        const move = this._keyboardMove!;
+        const task = this._boardData.tasks[move.taskId];
+        this._keyboardMove = null;
+        this.removeDropIndicator();
+        this.renderBoard();
+        this.announce(`Move cancelled. '${task?.title}' stays in ${this._boardData.columns[move.sourceColumnId]?.title}.`);
+    }
+
+    // Native HTML5 drag events never fire on touch in the Power Apps mobile player
+    private usePointerDrag(): boolean {
+        const mode = this._context.parameters.dragMode?.raw;
+        if (mode === 'Pointer') return true;
+        if (mode === 'Native') return false;
+        return navigator.maxTouchPoints > 0 || window.matchMedia?.('(pointer: coarse)').matches === true;
     }
 
     private setupDragEvents(taskElement: HTMLElement): void {
+        if (this.usePointerDrag()) {
+            this.setupPointerDrag(taskElement);
+            return;
+        }
+
         taskElement.setAttribute('draggable', 'true'); // Explicit attribute
         taskElement.style.cursor = 'grab';
 
@@ -2151,6 +7247,7 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
             this._sourceColumnId = (taskElement.parentElement as HTMLElement).getAttribute('data-column-id');
 
             taskElement.style.opacity = '0.5';
+            if (this._draggedTaskId) this.markDisallowedColumns(this._draggedTaskId);
 
             // Required for Firefox / some browsers to initiate drag
             if (e.dataTransfer) {
@@ -2165,6 +7262,8 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
 
         taskElement.addEventListener('dragend', (e) => {
             taskElement.style.opacity = '1';
+            this.removeDropIndicator();
+            this.clearDisallowedColumns();
             this._draggedElement = null;
             // Do not clear _draggedTaskId immediately if we need it in drop? 
             // Actually drop happens before dragend.
@@ -2175,33 +7274,426 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
         });
     }
 
+    /**
+     * Pointer-events drag engine. Touch and pen pick a card up with a long press (so a swipe still scrolls),
+     * the mouse after a small movement. The card follows the pointer as a floating preview, the tasks
+     * container under the pointer is highlighted and the board scrolls near the edges.
+     */
+    private setupPointerDrag(taskElement: HTMLElement): void {
+        taskElement.classList.add('kanban-pointer-drag');
+        taskElement.style.cursor = 'grab';
+
+        taskElement.addEventListener('pointerdown', (e) => {
+            if (this._pointerDrag || (e.pointerType === 'mouse' && e.button !== 0)) return;
+            if ((e.target as HTMLElement).closest('button, a, input, select, textarea')) return;
+
+            const container = taskElement.parentElement as HTMLElement;
+            const rect = taskElement.getBoundingClientRect();
+            const drag: PointerDrag = {
+                pointerId: e.pointerId,
+                pointerType: e.pointerType,
+                card: taskElement,
+                taskId: taskElement.getAttribute('data-task-id') || '',
+                sourceColumnId: container.getAttribute('data-column-id') || '',
+                startX: e.clientX,
+                startY: e.clientY,
+                offsetX: e.clientX - rect.left,
+                offsetY: e.clientY - rect.top,
+                lastX: e.clientX,
+                lastY: e.clientY,
+                active: false,
+                preview: null,
+                zone: null
+            };
+            this._pointerDrag = drag;
+
+            if (e.pointerType !== 'mouse') {
+                drag.longPressTimer = window.setTimeout(() => this.startPointerDrag(), LONG_PRESS_MS);
+            }
+            window.addEventListener('pointermove', this.onPointerMove);
+            window.addEventListener('pointerup', this.onPointerUp);
+            window.addEventListener('pointercancel', this.onPointerCancel);
+            // Only a non-passive touchmove listener can stop the page from scrolling during the drag
+            window.addEventListener('touchmove', this.onTouchMove, { passive: false });
+        });
+
+        // Long press opens the context menu / callout on mobile browsers
+        taskElement.addEventListener('contextmenu', (e) => {
+            if (this._pointerDrag) e.preventDefault();
+        });
+    }
+
+    private onPointerMove = (e: PointerEvent): void => {
+        const drag = this._pointerDrag;
+        if (!drag || e.pointerId !== drag.pointerId) return;
+        drag.lastX = e.clientX;
+        drag.lastY = e.clientY;
+
+        if (!drag.active) {
+            const distance = Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY);
+            if (distance < DRAG_THRESHOLD_PX) return;
+            // Moving before the long press completes is a scroll, not a drag
+            if (drag.pointerType === 'mouse') {
+                this.startPointerDrag();
+            } else {
+                this.endPointerDrag();
+            }
+            return;
+        }
+
+        e.preventDefault();
+        this.updatePointerDrag();
+    };
+
+    private onPointerUp = (e: PointerEvent): void => {
+        const drag = this._pointerDrag;
+        if (!drag || e.pointerId !== drag.pointerId) return;
+
+        const zone = drag.active ? drag.zone : null;
+        const wasActive = drag.active;
+        this.endPointerDrag();
+        if (wasActive) {
+            this._pointerDragEndedAt = Date.now();
+        }
+        if (zone) {
+            this._sourceColumnId = drag.sourceColumnId;
+            this.dropTask(zone, drag.taskId, drag.sourceColumnId, e.clientY);
+            this._sourceColumnId = null;
+        }
+    };
+
+    private onPointerCancel = (e: PointerEvent): void => {
+        if (this._pointerDrag && e.pointerId === this._pointerDrag.pointerId) {
+            this.endPointerDrag();
+        }
+    };
+
+    private onTouchMove = (e: TouchEvent): void => {
+        if (this._pointerDrag?.active && e.cancelable) e.preventDefault();
+    };
+
+    private startPointerDrag(): void {
+        const drag = this._pointerDrag;
+        if (!drag || drag.active) return;
+        drag.active = true;
+
+        this._draggedElement = drag.card;
+        this._draggedTaskId = drag.taskId;
+        this._sourceColumnId = drag.sourceColumnId;
+
+        const rect = drag.card.getBoundingClientRect();
+        const preview = drag.card.cloneNode(true) as HTMLElement;
+        preview.classList.add('kanban-drag-preview');
+        preview.removeAttribute('data-task-id');
+        preview.setAttribute('aria-hidden', 'true');
+        const groupSize = this.getMoveGroup(drag.taskId).length;
+        if (groupSize > 1) {
+            const badge = document.createElement('div');
+            badge.className = 'kanban-drag-count';
+            badge.textContent = String(groupSize);
+            preview.appendChild(badge);
+        }
+        preview.style.width = `${rect.width}px`;
+        document.body.appendChild(preview);
+        drag.preview = preview;
+
+        drag.card.style.opacity = '0.5';
+        this.markDisallowedColumns(drag.taskId);
+        if (drag.pointerType !== 'mouse') navigator.vibrate?.(30);
+
+        this.updatePointerDrag();
+        const scroll = () => {
+            if (this._pointerDrag !== drag || !drag.active) return;
+            if (this.autoScrollDuringDrag(drag)) this.updatePointerDrag();
+            drag.scrollFrame = window.requestAnimationFrame(scroll);
+        };
+        drag.scrollFrame = window.requestAnimationFrame(scroll);
+    }
+
+    // Moves the preview and highlights the tasks container under the pointer
+    private updatePointerDrag(): void {
+        const drag = this._pointerDrag!;
+        if (drag.preview) {
+            drag.preview.style.transform = `translate(${drag.lastX - drag.offsetX}px, ${drag.lastY - drag.offsetY}px) rotate(2deg)`;
+        }
+
+        const element = document.elementFromPoint(drag.lastX, drag.lastY);
+        const zone = element?.closest<HTMLElement>('.kanban-tasks-container') || null;
+        // The Unmapped column is not a drop target, same as for native drag and drop
+        const target = zone && this._container.contains(zone) && !this.isUnmappedContainer(zone) ? zone : null;
+
+        if (drag.zone && drag.zone !== target) {
+            drag.zone.style.backgroundColor = '';
+        }
+        drag.zone = target;
+        if (!target) {
+            this.removeDropIndicator();
+            return;
+        }
+
+        const blocked = !!this.getDropRejection(target);
+        target.style.backgroundColor = blocked ? 'rgba(220, 38, 38, 0.1)' : this.hexToRgba(this._styleConfig.primaryColor, 0.1);
+        const column = this._boardData.columns[target.getAttribute('data-column-id') || ''];
+        if (blocked || (column && this.isColumnSorted(column))) {
+            this.removeDropIndicator();
+        } else {
+            this.showDropIndicator(target, drag.lastY);
+        }
+    }
+
+    // Scrolls every scrollable element under the pointer that it is close to the edge of; true when something moved
+    private autoScrollDuringDrag(drag: PointerDrag): boolean {
+        const edge = AUTO_SCROLL_EDGE_PX;
+        let scrolled = false;
+        let element = document.elementFromPoint(drag.lastX, drag.lastY) as HTMLElement | null;
+
+        while (element && this._container.contains(element)) {
+            const rect = element.getBoundingClientRect();
+            const speedY = drag.lastY < rect.top + edge ? -1 : drag.lastY > rect.bottom - edge ? 1 : 0;
+            const speedX = drag.lastX < rect.left + edge ? -1 : drag.lastX > rect.right - edge ? 1 : 0;
+            if (speedY && element.scrollHeight > element.clientHeight) {
+                const before = element.scrollTop;
+                element.scrollTop += speedY * AUTO_SCROLL_STEP_PX;
+                scrolled = scrolled || element.scrollTop !== before;
+            }
+            if (speedX && element.scrollWidth > element.clientWidth) {
+                const before = element.scrollLeft;
+                element.scrollLeft += speedX * AUTO_SCROLL_STEP_PX;
+                scrolled = scrolled || element.scrollLeft !== before;
+            }
+            element = element.parentElement;
+        }
+        return scrolled;
+    }
+
+    private endPointerDrag(): void {
+        const drag = this._pointerDrag;
+        if (!drag) return;
+        this._pointerDrag = null;
+
+        window.removeEventListener('pointermove', this.onPointerMove);
+        window.removeEventListener('pointerup', this.onPointerUp);
+        window.removeEventListener('pointercancel', this.onPointerCancel);
+        window.removeEventListener('touchmove', this.onTouchMove);
+        if (drag.longPressTimer) window.clearTimeout(drag.longPressTimer);
+        if (drag.scrollFrame) window.cancelAnimationFrame(drag.scrollFrame);
+
+        drag.preview?.remove();
+        if (drag.zone) drag.zone.style.backgroundColor = '';
+        drag.card.style.opacity = '1';
+        this.removeDropIndicator();
+        this.clearDisallowedColumns();
+        if (drag.active) {
+            this._draggedElement = null;
+            this._draggedTaskId = null;
+            this._sourceColumnId = null;
+        }
+    }
+
+    private isTransitionWildcard(target: string): boolean {
+        return target === '*' || target.toLowerCase() === 'any';
+    }
+
+    // Moves within a column are always allowed, and so is leaving the Unmapped column
+    private isTransitionAllowed(sourceColumnId: string, targetColumnId: string): boolean {
+        if (sourceColumnId === targetColumnId) return true;
+        const source = this._boardData.columns[sourceColumnId];
+        if (!source || source.isUnmapped || !source.allowedTransitions) return true;
+        return source.allowedTransitions.some(target => this.isTransitionWildcard(target) || target === targetColumnId);
+    }
+
+    /**
+     * Why moving the task, together with the rest of its selection, to the column is refused:
+     * the Unmapped column never takes cards, then transition rules, then hard WIP limits.
+     * null when the move is allowed.
+     */
+    private getMoveRejection(taskId: string, targetColumn: Column, group = this.getMoveGroup(taskId)): MoveRejection | null {
+        const sourceColumnId = this.findTaskColumnId(taskId) || '';
+
+        if (targetColumn.isUnmapped) {
+            return {
+                reason: 'unmapped',
+                message: `"${targetColumn.title}" only lists cards with an unknown status - cards cannot be moved into it`,
+                sourceColumnId
+            };
+        }
+
+        const blockedSourceId = group
+            .map(id => this.findTaskColumnId(id))
+            .find(id => !!id && !this.isTransitionAllowed(id, targetColumn.id));
+        if (blockedSourceId) {
+            const source = this._boardData.columns[blockedSourceId];
+            const allowed = (source.allowedTransitions || [])
+                .map(id => this._boardData.columns[id]?.title)
+                .filter(title => !!title);
+            return {
+                reason: 'transition',
+                message: `"${source.title}" cannot move to "${targetColumn.title}"`
+                    + (allowed.length > 0 ? ` - allowed: ${allowed.join(', ')}` : ' - cards cannot leave this column'),
+                sourceColumnId: blockedSourceId
+            };
+        }
+
+        const incoming = group.filter(id => !targetColumn.taskIds.includes(id)).length;
+        if (incoming > 0 && !this.canAcceptTask(targetColumn, incoming)) {
+            return {
+                reason: 'wipLimit',
+                message: `WIP limit reached (${targetColumn.taskIds.length}/${targetColumn.wipMax}) - "${targetColumn.title}" cannot take ${incoming > 1 ? `${incoming} more cards` : 'more cards'}`,
+                sourceColumnId
+            };
+        }
+        return null;
+    }
+
+    private isUnmappedContainer(container: HTMLElement): boolean {
+        return !!this._boardData.columns[container.getAttribute('data-column-id') || '']?.isUnmapped;
+    }
+
+    private getDropRejection(container: HTMLElement, taskId: string | null = this._draggedTaskId): MoveRejection | null {
+        const targetColumn = this._boardData.columns[container.getAttribute('data-column-id') || ''];
+        return targetColumn && taskId ? this.getMoveRejection(taskId, targetColumn) : null;
+    }
+
+    // Explains the refusal next to the column and reports it through rejectedMove (and wipLimitEvent)
+    private rejectMove(taskId: string, targetColumn: Column, rejection: MoveRejection, feedbackElement: HTMLElement | null, group = this.getMoveGroup(taskId)): void {
+        if (feedbackElement) {
+            this.showColumnFeedback(feedbackElement, rejection.message);
+        }
+        if (rejection.reason === 'wipLimit') {
+            this._lastWipEvent = this.createWipEvent([{ column: targetColumn, type: 'blocked' }], taskId);
+        }
+
+        const task = this._boardData.tasks[taskId];
+        const source = this._boardData.columns[rejection.sourceColumnId];
+        this._lastRejectedMove = {
+            reason: rejection.reason,
+            message: rejection.message,
+            taskId: task?.recordId || taskId,
+            taskIds: group.map(id => this._boardData.tasks[id]?.recordId || id),
+            fromColumnId: rejection.sourceColumnId,
+            fromStatus: source?.statusValues[0] || source?.title || '',
+            toColumnId: targetColumn.id,
+            toStatus: targetColumn.statusValues[0] || targetColumn.title,
+            allowedColumnIds: source?.allowedTransitions ?? null,
+            timestamp: new Date().toISOString()
+        };
+        this.emitBoardEvent('action', { action: 'moveRejected', taskIds: this._lastRejectedMove.taskIds, rejection: this._lastRejectedMove });
+        this._notifyOutputChanged();
+    }
+
+    // Greys out the columns the task (and its selection) may not be dropped into
+    private markDisallowedColumns(taskId: string): void {
+        this._boardData.columnOrder.forEach(columnId => {
+            const reason = this.getMoveRejection(taskId, this._boardData.columns[columnId])?.reason;
+            if (reason === 'transition' || reason === 'unmapped') {
+                this.getColumnShells(columnId).forEach(shell => shell.classList.add('kanban-column-disallowed'));
+            }
+        });
+    }
+
+    private clearDisallowedColumns(): void {
+        this._container.querySelectorAll('.kanban-column-disallowed').forEach(shell => shell.classList.remove('kanban-column-disallowed'));
+    }
+
+    // Cards of the container other than the one being dragged, in display order
+    private getDropCandidates(container: HTMLElement, taskId: string | null): HTMLElement[] {
+        return Array.from(container.querySelectorAll<HTMLElement>('.kanban-task-card'))
+            .filter(card => card.getAttribute('data-task-id') !== taskId);
+    }
+
+    // First card whose vertical midpoint is below the pointer, i.e. the card the drop goes before
+    private getCardBelowPointer(cards: HTMLElement[], clientY: number): HTMLElement | null {
+        return cards.find(card => {
+            const rect = card.getBoundingClientRect();
+            return clientY < rect.top + rect.height / 2;
+        }) || null;
+    }
+
+    /**
+     * Insert position in the target column's taskIds (without the dragged task) for the pointer position.
+     * Below the last visible card means right after it, which matters when the container only
+     * shows part of the column (swimlanes).
+     */
+    private getDropIndex(container: HTMLElement, clientY: number, taskId: string): number {
+        const column = this._boardData.columns[container.getAttribute('data-column-id') || ''];
+        if (!column) return 0;
+
+        const cards = this.getDropCandidates(container, taskId);
+        const before = this.getCardBelowPointer(cards, clientY);
+        return this.getInsertIndex(column, taskId, cards.map(card => card.getAttribute('data-task-id')!), before?.getAttribute('data-task-id') ?? null);
+    }
+
+    // Index in column.taskIds for an insert before the given card, or after the last of the cell's cards
+    private getInsertIndex(column: Column, taskId: string, taskIds: string[], beforeId: string | null): number {
+        const remaining = column.taskIds.filter(id => id !== taskId);
+        if (beforeId) {
+            return remaining.indexOf(beforeId);
+        }
+        const last = taskIds[taskIds.length - 1];
+        return last ? remaining.indexOf(last) + 1 : remaining.length;
+    }
+
+    private showDropIndicator(container: HTMLElement, clientY: number): void {
+        if (container.classList.contains('kanban-collapsed-drop')) {
+            this.removeDropIndicator();
+            return;
+        }
+        if (!this._dropIndicator) {
+            this._dropIndicator = document.createElement('div');
+            this._dropIndicator.className = 'kanban-drop-indicator';
+        }
+        const before = this.getCardBelowPointer(this.getDropCandidates(container, this._draggedTaskId), clientY);
+        // Only touch the DOM when the position actually changes
+        if (this._dropIndicator.parentElement !== container || this._dropIndicator.nextElementSibling !== before) {
+            container.insertBefore(this._dropIndicator, before);
+        }
+    }
+
+    private removeDropIndicator(): void {
+        this._dropIndicator?.remove();
+    }
+
     private setupDropZone(container: HTMLElement): void {
         // Essential: 'dragover' MUST prevent default to allow dropping
         container.addEventListener('dragover', (e) => {
             e.preventDefault();
             e.stopPropagation();
+            const blocked = !!this.getDropRejection(container);
             if (e.dataTransfer) {
-                e.dataTransfer.dropEffect = 'move';
+                e.dataTransfer.dropEffect = blocked ? 'none' : 'move';
+            }
+            container.style.backgroundColor = blocked ? 'rgba(220, 38, 38, 0.1)' : this.hexToRgba(this._styleConfig.primaryColor, 0.1);
+            const column = this._boardData.columns[container.getAttribute('data-column-id') || ''];
+            if (blocked || (column && this.isColumnSorted(column))) {
+                this.removeDropIndicator();
+            } else {
+                this.showDropIndicator(container, e.clientY);
             }
-            container.style.backgroundColor = this.hexToRgba(this._styleConfig.primaryColor, 0.1);
         });
 
         container.addEventListener('dragenter', (e) => {
             e.preventDefault();
             e.stopPropagation();
-            container.style.backgroundColor = this.hexToRgba(this._styleConfig.primaryColor, 0.1);
+            container.style.backgroundColor = this.getDropRejection(container)
+                ? 'rgba(220, 38, 38, 0.1)'
+                : this.hexToRgba(this._styleConfig.primaryColor, 0.1);
         });
 
         container.addEventListener('dragleave', (e) => {
             e.preventDefault();
             e.stopPropagation();
             container.style.backgroundColor = '';
+            // dragleave also fires when moving over child cards
+            if (!container.contains(e.relatedTarget as Node)) {
+                this.removeDropIndicator();
+            }
         });
 
         container.addEventListener('drop', (e) => {
             e.preventDefault();
             e.stopPropagation();
             container.style.backgroundColor = '';
+            this.removeDropIndicator();
 
             // Use internal state instead of e.dataTransfer.getData
             const taskId = this._draggedTaskId;
@@ -2213,21 +7705,62 @@ export class KanbanBoard implements ComponentFramework.StandardControl<IInputs,
                 return;
             }
 
-            const targetColumnId = container.getAttribute('data-column-id');
-            if (!targetColumnId) return;
+            this.dropTask(container, taskId, sourceCol, e.clientY);
+        });
+    }
+
+    // Shared by the native and the pointer drag engine
+    private dropTask(container: HTMLElement, taskId: string, sourceCol: string, clientY: number): void {
+        const targetColumnId = container.getAttribute('data-column-id');
+        if (!targetColumnId) return;
 
-            // Prevent drop in same column if that's desired (optional)
-            if (sourceCol === targetColumnId) return;
+        // Swimlane cells carry their lane; null when swimlanes are off
+        const targetLane = container.getAttribute('data-lane-value');
+        const targetIndex = this.getDropIndex(container, clientY, taskId);
 
-            console.log(`Dropping Task ${taskId} from ${sourceCol} to ${targetColumnId}`);
-            this.moveTask(taskId, sourceCol, targetColumnId);
-        });
+        // Transition rule or hard WIP limit: refuse the drop and tell the user and the app why
+        const targetColumn = this._boardData.columns[targetColumnId];
+        const rejection = this.getDropRejection(container, taskId);
+        if (rejection) {
+            this.rejectMove(taskId, targetColumn, rejection, container);
+            return;
+        }
+
+        const group = this.getMoveGroup(taskId);
+        if (group.length > 1) {
+            this.moveTasks(group, targetColumnId, { laneValue: targetLane ?? undefined, index: targetIndex });
+            return;
+        }
+
+        console.log(`Dropping Task ${taskId} from ${sourceCol} to ${targetColumnId}`);
+        this.moveTask(taskId, sourceCol, targetColumnId, { laneValue: targetLane ?? undefined, index: targetIndex });
     }
 
     public destroy(): void {
+        this.endPointerDrag();
+        this._container.removeEventListener('keydown', this.onBoardKeyDown);
+        this._container.removeEventListener('scroll', this.onBoardScroll, true);
+        if (this._virtualFrame) window.cancelAnimationFrame(this._virtualFrame);
+        this._virtualLists = {};
+        Object.values(this._pendingMoves).forEach(move => {
+            if (move.timer) window.clearTimeout(move.timer);
+        });
+        this._pendingMoves = {};
+        Object.values(this._pendingCreates).forEach(create => {
+            if (create.timer) window.clearTimeout(create.timer);
+        });
+        this._pendingCreates = {};
+        Object.values(this._pendingEdits).forEach(edit => {
+            if (edit.timer) window.clearTimeout(edit.timer);
+        });
+        this._pendingEdits = {};
+        this.cancelSearchDebounce();
+
         const styleElement = document.getElementById('kanban-custom-styles');
         if (styleElement) {
             styleElement.remove();
         }
+        this._appliedStyleKey = '';
+        this._renderedElements = {};
     }
 }